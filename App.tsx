@@ -1,18 +1,66 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { EarthquakeFeature, ViewMode, LocationState, AlertZone, AlertNotification, TimePeriod, MapStyle } from './types';
-import { fetchEarthquakes } from './services/earthquakeService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { EarthquakeFeature, ViewMode, LocationState, AlertZone, AlertNotification, AlertLogEntry, TimePeriod, MapStyle, MapDensityMode, DensityWeight, FeedProviderId, FdsnQuery, ImportedDataset, RevisionHistory, StreamStatus, ArchiveQuery, ArchiveStats, QuietHoursSchedule, EscalationSettings, TrackedLocation, CheckIn, SafetyStatus, DrillScenario, DrillEvent, WebhookConfig, WebhookDelivery, WebhookPayload } from './types';
+import { fetchEarthquakes, fetchFdsnEvents, getCachedEarthquakes, isFullFdsnPage, FDSN_PAGE_SIZE } from './services/earthquakeService';
+import { PROVIDERS, PROVIDER_ORDER, DEFAULT_PROVIDERS, PERIOD_MS } from './services/feedProviders';
+import { FeedError, HttpError, toFeedError, getFeedErrorMessage } from './services/feedErrors';
+import { archiveEvents, queryArchive, pruneArchive, getArchiveStats, clearArchive, getArchiveCoverage, recordArchiveCoverage, DEFAULT_RETENTION_DAYS, RETENTION_OPTIONS } from './services/archiveService';
+import { connectQuakeStream } from './services/quakeStream';
+import { getNotificationPermission, requestNotificationPermission, showAlertNotification, isPushAvailable, subscribeToPush, unsubscribeFromPush, NotificationPermissionState } from './services/notificationService';
+import { buildWebhookPayload, buildTestPayload, matchesWebhook, sendWebhook, appendDelivery, updateDelivery } from './services/webhookService';
+import { upsertEvent } from './utils/quakeMerge';
 import { calculateDistance } from './utils/geoUtils';
+import { DEFAULT_QUIET_HOURS, isCriticalAlert, isQuietTime, shouldSoundAlert, shouldSoundQuake } from './utils/quietHours';
+import { createAudioContext } from './utils/audio';
+import { DEFAULT_ESCALATION, getAlertSeverity, getSirenLevel, pickEscalatingAlert } from './utils/escalation';
+import { evaluateAlerts } from './utils/alertEngine';
+import { smoothLocation, resolveFollowZones } from './utils/followZone';
+import { DEFAULT_DRILL_SCENARIO, buildDrillEvents } from './utils/drill';
+import { addToFamilyBoard, decodeCheckIn, CHECK_IN_PARAM, MAX_CHECK_INS } from './utils/checkIn';
+import { findSequences } from './utils/aftershocks';
+import { evaluateSwarmAlerts, BASELINE_MS, COMPLETENESS_MAG } from './utils/rateMonitor';
+import { appendAlerts, acknowledgeAlerts, snoozeAlert, clearAcknowledged, getAlertStatus, getNextSnoozeEnd, removeDrillAlerts, SNOOZE_MINUTES } from './utils/alertLog';
+import { formatMmi, getMmiColor, getMmiLabel } from './utils/groundMotion';
+import { detectRevisions, appendRevisions, crossesThreshold } from './utils/revisionTracker';
 import NavBar from './components/NavBar';
 import EarthquakeList from './components/EarthquakeList';
+import WaveCountdown from './components/WaveCountdown';
 import MapView from './components/MapView';
 import SafetyTips from './components/SafetyTips';
-import { RefreshCw, X, AlertOctagon, Volume2, VolumeX, Settings, Check, Sliders, Map as MapIcon, Zap, Mic } from 'lucide-react';
+import DatasetManager from './components/DatasetManager';
+import QuietHoursEditor from './components/QuietHoursEditor';
+import EscalationEditor from './components/EscalationEditor';
+import DrillEditor from './components/DrillEditor';
+import WebhookManager from './components/WebhookManager';
+import AlertHistory from './components/AlertHistory';
+import SafetyCheckIn from './components/SafetyCheckIn';
+import FamilyBoard from './components/FamilyBoard';
+import { RefreshCw, X, AlertOctagon, Volume2, VolumeX, Settings, Check, Sliders, Map as MapIcon, Zap, Mic, Radio, Database, Archive, Trash2, WifiOff, AlertTriangle, Clock, History, BellOff, Activity, BellRing, Users, HeartHandshake, FlaskConical, Play, Square, Webhook } from 'lucide-react';
+
+const STREAM_STATUS_STYLES: Record<StreamStatus, { className: string; label: string }> = {
+  off: { className: 'bg-slate-100 text-slate-500', label: 'বন্ধ' },
+  connecting: { className: 'bg-amber-100 text-amber-700', label: 'সংযুক্ত হচ্ছে' },
+  reconnecting: { className: 'bg-amber-100 text-amber-700', label: 'পুনঃসংযোগ' },
+  live: { className: 'bg-green-100 text-green-700', label: 'লাইভ' },
+  fallback: { className: 'bg-slate-200 text-slate-600', label: 'পোলিং' },
+};
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewMode>('list');
   const [earthquakes, setEarthquakes] = useState<EarthquakeFeature[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  // Background refresh while cached data is already on screen
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  // Fetch time of the cached data being shown; null once fresh data arrived
+  const [dataAsOf, setDataAsOf] = useState<number | null>(null);
   const [period, setPeriod] = useState<TimePeriod>('day');
+  const [customQuery, setCustomQuery] = useState<FdsnQuery | null>(null);
+  const [archiveQuery, setArchiveQuery] = useState<ArchiveQuery | null>(null);
+  // True when the feed could not be reached and the list shows archived events instead
+  const [isArchiveFallback, setIsArchiveFallback] = useState<boolean>(false);
+  const [loadError, setLoadError] = useState<FeedError | null>(null);
+  const [rejectedCount, setRejectedCount] = useState<number>(0);
+  const [hasMoreResults, setHasMoreResults] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [userLocation, setUserLocation] = useState<LocationState | null>(null);
   const [reduceAnimation, setReduceAnimation] = useState<boolean>(() => {
     return localStorage.getItem('reduceAnimation') === 'true';
@@ -36,6 +84,16 @@ const App: React.FC = () => {
     return localStorage.getItem('voiceAlertEnabled') !== 'false';
   });
 
+  const [quietHours, setQuietHours] = useState<QuietHoursSchedule>(() => {
+    const saved = localStorage.getItem('quietHours');
+    return saved ? JSON.parse(saved) : DEFAULT_QUIET_HOURS;
+  });
+
+  const [escalation, setEscalation] = useState<EscalationSettings>(() => {
+    const saved = localStorage.getItem('escalationSettings');
+    return saved ? JSON.parse(saved) : DEFAULT_ESCALATION;
+  });
+
   // Map & Alert Settings
   const [minAlertMag, setMinAlertMag] = useState<number>(() => {
     const saved = localStorage.getItem('minAlertMag');
@@ -45,20 +103,143 @@ const App: React.FC = () => {
   const [mapStyle, setMapStyle] = useState<MapStyle>(() => {
     return (localStorage.getItem('mapStyle') as MapStyle) || 'standard';
   });
+  const [mapDensityMode, setMapDensityMode] = useState<MapDensityMode>(() => {
+    return (localStorage.getItem('mapDensityMode') as MapDensityMode) || 'markers';
+  });
+  const [densityWeight, setDensityWeight] = useState<DensityWeight>(() => {
+    return (localStorage.getItem('densityWeight') as DensityWeight) || 'magnitude';
+  });
+
+  // Data Source Settings
+  const [feedProviders, setFeedProviders] = useState<FeedProviderId[]>(() => {
+    const saved = localStorage.getItem('feedProviders');
+    return saved ? JSON.parse(saved) : DEFAULT_PROVIDERS;
+  });
+  const [streamEnabled, setStreamEnabled] = useState<boolean>(() => {
+    return localStorage.getItem('streamEnabled') === 'true';
+  });
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('off');
+
+  // Archive Settings
+  const [archiveRetentionDays, setArchiveRetentionDays] = useState<number>(() => {
+    const saved = localStorage.getItem('archiveRetentionDays');
+    return saved ? parseInt(saved, 10) : DEFAULT_RETENTION_DAYS;
+  });
+  const [archiveStats, setArchiveStats] = useState<ArchiveStats | null>(null);
+  // Pushed events waiting to be checked against zones with fresh state
+  const [streamQueue, setStreamQueue] = useState<EarthquakeFeature[]>([]);
+
+  // System Notification Settings
+  const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(() => {
+    return localStorage.getItem('notificationsEnabled') === 'true';
+  });
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>(getNotificationPermission);
+  const [pushEnabled, setPushEnabled] = useState<boolean>(() => {
+    return localStorage.getItem('pushEnabled') === 'true';
+  });
+  const [pushError, setPushError] = useState<string | null>(null);
+  // Event to open in the list, from a notification click or an ?event= link
+  const [focusQuakeId, setFocusQuakeId] = useState<string | null>(() => {
+    return new URLSearchParams(window.location.search).get('event');
+  });
 
   const [showSettings, setShowSettings] = useState(false);
+
+  // Imported Catalog State
+  const [datasets, setDatasets] = useState<ImportedDataset[]>(() => {
+    const saved = localStorage.getItem('importedDatasets');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [showLiveData, setShowLiveData] = useState<boolean>(() => {
+    return localStorage.getItem('showLiveData') !== 'false';
+  });
+  const [showDatasets, setShowDatasets] = useState(false);
   
   // Zone State
   const [zones, setZones] = useState<AlertZone[]>(() => {
     const saved = localStorage.getItem('alertZones');
     return saved ? JSON.parse(saved) : [];
   });
+  // Anchor for follow-me zones; a saved position is stale until GPS reports again
+  const [followLocation, setFollowLocation] = useState<TrackedLocation | null>(() => {
+    const saved = localStorage.getItem('lastKnownLocation');
+    return saved ? { ...JSON.parse(saved), stale: true } : null;
+  });
+  const effectiveZones = useMemo(() => resolveFollowZones(zones, followLocation), [zones, followLocation]);
   
   // Notification State
-  const [activeAlerts, setActiveAlerts] = useState<AlertNotification[]>([]);
+  const [alertLog, setAlertLog] = useState<AlertLogEntry[]>(() => {
+    const saved = localStorage.getItem('alertLog');
+    // A drill interrupted by a reload is over
+    return saved ? removeDrillAlerts(JSON.parse(saved)) : [];
+  });
+  // Bumped when a snooze runs out so the alert shows again
+  const [alertClock, setAlertClock] = useState<number>(() => Date.now());
+  const [showAlertHistory, setShowAlertHistory] = useState(false);
+  const activeAlerts = useMemo(
+    () => alertLog.filter(entry => getAlertStatus(entry, alertClock) === 'active').map(entry => entry.alert),
+    [alertLog, alertClock]
+  );
+  const pendingAlertCount = alertLog.filter(entry => !entry.acknowledgedAt && !entry.alert.isDrill).length;
+
+  // Webhook State
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>(() => {
+    const saved = localStorage.getItem('webhooks');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [webhookLog, setWebhookLog] = useState<WebhookDelivery[]>(() => {
+    const saved = localStorage.getItem('webhookLog');
+    if (!saved) return [];
+    // Deliveries cut off by a reload will never finish
+    return (JSON.parse(saved) as WebhookDelivery[]).map(d => d.status === 'pending' ? { ...d, status: 'failed', error: 'Interrupted by reload' } : d);
+  });
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  // Alerts already handed to webhooks; logged alerts from before a reload count as sent
+  const dispatchedAlertIds = useRef(new Set(alertLog.map(entry => entry.alert.id)));
+
+  // Drill State
+  const [drillScenario, setDrillScenario] = useState<DrillScenario>(() => {
+    const saved = localStorage.getItem('drillScenario');
+    return saved ? JSON.parse(saved) : DEFAULT_DRILL_SCENARIO;
+  });
+  const [drillRun, setDrillRun] = useState<{ startedAt: number; events: DrillEvent[] } | null>(null);
+  // Drill events that have fired, shown next to live data but kept out of it
+  const [drillQuakes, setDrillQuakes] = useState<EarthquakeFeature[]>([]);
+  const [drillQueue, setDrillQueue] = useState<EarthquakeFeature[]>([]);
+
+  // Family Check-in State
+  const [checkInName, setCheckInName] = useState<string>(() => localStorage.getItem('checkInName') || '');
+  // My own answers, newest first
+  const [checkIns, setCheckIns] = useState<CheckIn[]>(() => {
+    const saved = localStorage.getItem('checkIns');
+    return saved ? JSON.parse(saved) : [];
+  });
+  // Latest status of each family member, decoded from links they shared
+  const [familyBoard, setFamilyBoard] = useState<CheckIn[]>(() => {
+    const saved = localStorage.getItem('familyBoard');
+    return saved ? JSON.parse(saved) : [];
+  });
+  // Alert the "are you safe?" card is asking about
+  const [checkInAlert, setCheckInAlert] = useState<AlertNotification | null>(null);
+  const [showCheckIn, setShowCheckIn] = useState(false);
+  // The answer being shared; null while the dialog still asks
+  const [sharingCheckIn, setSharingCheckIn] = useState<CheckIn | null>(null);
+  const [showFamilyBoard, setShowFamilyBoard] = useState(false);
+
+  // Revision Tracking State
+  const [revisionHistory, setRevisionHistory] = useState<RevisionHistory>(() => {
+    const saved = localStorage.getItem('revisionHistory');
+    return saved ? JSON.parse(saved) : {};
+  });
+  const lastSnapshot = useRef<Map<string, EarthquakeFeature>>(new Map());
+  // Which feed is currently on screen, so a refresh doesn't re-show its own cache
+  const shownFeed = useRef<string | null>(null);
+  // Server offset of the next custom-query page; validation drops and pushed events make the list length unreliable
+  const nextQueryOffset = useRef(1);
 
   // Sound Tracking Refs
-  const prevAlertCount = useRef(0);
+  // Alerts restored from the log already sounded before the reload
+  const prevAlertCount = useRef(activeAlerts.length);
   const prevLatestQuakeId = useRef<string | null>(null);
 
   // Persist settings
@@ -66,6 +247,12 @@ const App: React.FC = () => {
     localStorage.setItem('alertZones', JSON.stringify(zones));
   }, [zones]);
 
+  useEffect(() => {
+    if (followLocation && !followLocation.stale) {
+      localStorage.setItem('lastKnownLocation', JSON.stringify({ lat: followLocation.lat, lng: followLocation.lng, updatedAt: followLocation.updatedAt }));
+    }
+  }, [followLocation]);
+
   useEffect(() => {
     localStorage.setItem('reduceAnimation', reduceAnimation.toString());
   }, [reduceAnimation]);
@@ -78,6 +265,14 @@ const App: React.FC = () => {
     localStorage.setItem('voiceAlertEnabled', voiceAlertEnabled.toString());
   }, [isSoundEnabled, volume, sirenEnabled, quakeSoundEnabled, voiceAlertEnabled]);
 
+  useEffect(() => {
+    localStorage.setItem('quietHours', JSON.stringify(quietHours));
+  }, [quietHours]);
+
+  useEffect(() => {
+    localStorage.setItem('escalationSettings', JSON.stringify(escalation));
+  }, [escalation]);
+
   useEffect(() => {
     localStorage.setItem('minAlertMag', minAlertMag.toString());
   }, [minAlertMag]);
@@ -86,7 +281,144 @@ const App: React.FC = () => {
     localStorage.setItem('mapStyle', mapStyle);
   }, [mapStyle]);
 
+  useEffect(() => {
+    localStorage.setItem('mapDensityMode', mapDensityMode);
+    localStorage.setItem('densityWeight', densityWeight);
+  }, [mapDensityMode, densityWeight]);
+
+  useEffect(() => {
+    localStorage.setItem('feedProviders', JSON.stringify(feedProviders));
+  }, [feedProviders]);
+
+  useEffect(() => {
+    localStorage.setItem('streamEnabled', streamEnabled.toString());
+  }, [streamEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem('notificationsEnabled', notificationsEnabled.toString());
+    localStorage.setItem('pushEnabled', pushEnabled.toString());
+  }, [notificationsEnabled, pushEnabled]);
+
+  // Keep the push server's copy of zones and threshold current
+  useEffect(() => {
+    if (!pushEnabled || !isPushAvailable() || notificationPermission !== 'granted') return;
+    subscribeToPush(zones, minAlertMag)
+      .then(() => setPushError(null))
+      .catch(e => {
+        console.error("Push subscription failed", e);
+        setPushError('পুশ সার্ভারে সংযোগ করা যায়নি।');
+      });
+  }, [pushEnabled, notificationPermission, zones, minAlertMag]);
+
+  useEffect(() => {
+    localStorage.setItem('drillScenario', JSON.stringify(drillScenario));
+  }, [drillScenario]);
+
+  useEffect(() => {
+    localStorage.setItem('webhooks', JSON.stringify(webhooks));
+  }, [webhooks]);
+
+  useEffect(() => {
+    localStorage.setItem('webhookLog', JSON.stringify(webhookLog));
+  }, [webhookLog]);
+
+  useEffect(() => {
+    localStorage.setItem('checkInName', checkInName);
+  }, [checkInName]);
+
+  useEffect(() => {
+    localStorage.setItem('checkIns', JSON.stringify(checkIns));
+  }, [checkIns]);
+
+  useEffect(() => {
+    localStorage.setItem('familyBoard', JSON.stringify(familyBoard));
+  }, [familyBoard]);
+
+  // A family member's shared ?checkin= link goes onto the board
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get(CHECK_IN_PARAM);
+    if (!code) return;
+    const checkIn = decodeCheckIn(code);
+    if (checkIn) {
+      setFamilyBoard(prev => addToFamilyBoard(prev, { ...checkIn, receivedAt: Date.now() }));
+      setShowFamilyBoard(true);
+    }
+    // Drop the code so a reload doesn't reopen the board
+    params.delete(CHECK_IN_PARAM);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, []);
+
+  // Notification clicks while the app is already open
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-event' && event.data.quakeId) {
+        setFocusQuakeId(event.data.quakeId);
+        setView('list');
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('archiveRetentionDays', archiveRetentionDays.toString());
+    pruneArchive(archiveRetentionDays).catch(e => console.error("Failed to prune archive", e));
+  }, [archiveRetentionDays]);
+
+  // Refresh the archive summary whenever settings are opened
+  useEffect(() => {
+    if (!showSettings) return;
+    getArchiveStats()
+      .then(setArchiveStats)
+      .catch(e => console.error("Failed to read archive stats", e));
+  }, [showSettings]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('importedDatasets', JSON.stringify(datasets));
+    } catch (e) {
+      // Large catalogs can exceed the storage quota; they stay usable for this session
+      console.error("Failed to persist datasets", e);
+    }
+  }, [datasets]);
+
+  useEffect(() => {
+    localStorage.setItem('showLiveData', showLiveData.toString());
+  }, [showLiveData]);
+
+  useEffect(() => {
+    localStorage.setItem('revisionHistory', JSON.stringify(revisionHistory));
+  }, [revisionHistory]);
+
+  useEffect(() => {
+    localStorage.setItem('alertLog', JSON.stringify(alertLog));
+  }, [alertLog]);
+
+  // Wake up when the next snoozed alert is due
+  useEffect(() => {
+    const nextEnd = getNextSnoozeEnd(alertLog);
+    if (nextEnd === null) return;
+    const timer = setTimeout(() => setAlertClock(Date.now()), nextEnd - Date.now());
+    return () => clearTimeout(timer);
+  }, [alertLog, alertClock]);
+
+  // Live events plus every visible imported catalog and running drill, newest first
+  const displayedQuakes = useMemo(() => {
+    const imported = datasets.filter(d => d.isVisible).flatMap(d => d.features);
+    if (imported.length === 0 && drillQuakes.length === 0) return showLiveData ? earthquakes : [];
+    return [...(showLiveData ? earthquakes : []), ...imported, ...drillQuakes]
+      .sort((a, b) => b.properties.time - a.properties.time);
+  }, [earthquakes, datasets, showLiveData, drillQuakes]);
+
+  // Clustered from the live feed only; imported catalogs cover unrelated time spans
+  const sequences = useMemo(() => findSequences(earthquakes), [earthquakes]);
+
   // --- Voice Alert (TTS) ---
+  const toBanglaDigits = (n: number) => String(n).replace(/\d/g, d => '০১২৩৪৫৬৭৮৯'[Number(d)]);
+
   const speakAlert = (text: string) => {
     if (!('speechSynthesis' in window)) return;
     
@@ -108,19 +440,34 @@ const App: React.FC = () => {
     window.speechSynthesis.speak(utterance);
   };
 
+  const buildAlertSpeech = (alert: AlertNotification): string => {
+    if (alert.kind === 'swarm' && alert.swarm) {
+      return `সতর্কতা! ${alert.zoneName} এলাকায় গত ${toBanglaDigits(alert.swarm.windowHours)} ঘণ্টায় ${toBanglaDigits(alert.swarm.count)} টি ভূমিকম্প, যা স্বাভাবিকের চেয়ে অনেক বেশি।`;
+    }
+    const prefix = `${alert.isDrill ? 'এটি একটি মহড়া। ' : ''}${alert.revised ? 'সংশোধিত তথ্য। ' : ''}`;
+    const intensity = alert.mmi !== undefined
+      ? ` আনুমানিক কম্পন ${getMmiLabel(alert.mmi)}।`
+      : '';
+    const secondsToShaking = alert.sArrival ? Math.ceil((alert.sArrival - Date.now()) / 1000) : 0;
+    const countdown = secondsToShaking > 0
+      ? ` শক্তিশালী কম্পন ${toBanglaDigits(secondsToShaking)} সেকেন্ডে পৌঁছাবে।`
+      : '';
+    return `${prefix}সতর্কতা!${countdown} ${alert.zoneName} এলাকায় ${alert.mag} মাত্রার ভূমিকম্প শনাক্ত হয়েছে।${intensity}`;
+  };
+
   // --- Sound Effects ---
-  const playAlertSiren = () => {
+  // `level` scales the normal loudness; escalating alarms raise it on each repeat
+  const playAlertSiren = (level: number = 1) => {
     if (!isSoundEnabled || !sirenEnabled) return;
     try {
-      const Ctx = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new Ctx();
+      const ctx = createAudioContext();
       const osc = ctx.createOscillator();
       const gain = ctx.createGain();
 
       osc.connect(gain);
       gain.connect(ctx.destination);
 
-      const maxGain = 0.3 * volume;
+      const maxGain = Math.min(1, 0.3 * level) * volume;
 
       // Siren Effect: Modulating Sawtooth
       osc.type = 'sawtooth';
@@ -140,11 +487,37 @@ const App: React.FC = () => {
     }
   };
 
+  // Three short rising beeps: attention, but not the siren of a single strong event
+  const playSwarmChime = () => {
+    if (!isSoundEnabled || !sirenEnabled) return;
+    try {
+      const ctx = createAudioContext();
+      const maxGain = 0.25 * volume;
+
+      [0, 0.25, 0.5].forEach((offset, i) => {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.connect(gain);
+        gain.connect(ctx.destination);
+
+        const t = ctx.currentTime + offset;
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(520 + i * 140, t);
+        gain.gain.setValueAtTime(maxGain, t);
+        gain.gain.exponentialRampToValueAtTime(0.01, t + 0.18);
+
+        osc.start(t);
+        osc.stop(t + 0.2);
+      });
+    } catch (e) {
+      console.error("Audio play failed", e);
+    }
+  };
+
   const playSignificantQuakeSound = () => {
     if (!isSoundEnabled || !quakeSoundEnabled) return;
     try {
-      const Ctx = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new Ctx();
+      const ctx = createAudioContext();
       const t = ctx.currentTime;
       
       // Create two oscillators for a distinctive, lower-frequency "Warning" dissonance
@@ -193,19 +566,72 @@ const App: React.FC = () => {
   // Monitor Alerts for Sound & Voice
   useEffect(() => {
     if (activeAlerts.length > prevAlertCount.current) {
-      playAlertSiren();
-      
-      if (voiceAlertEnabled && activeAlerts.length > 0) {
-        // Speak the details of the latest added alert (assuming logic prepends new alerts)
-        // Since we can't easily distinguish exactly which one is "new" without comparing arrays,
-        // we'll speak the first one if the count increased.
-        const latestAlert = activeAlerts[0];
-        const text = `সতর্কতা! ${latestAlert.zoneName} এলাকায় ${latestAlert.mag} মাত্রার ভূমিকম্প শনাক্ত হয়েছে।`;
-        speakAlert(text);
+      // Speak the details of the latest added alert (assuming logic prepends new alerts)
+      // Since we can't easily distinguish exactly which one is "new" without comparing arrays,
+      // we'll speak the first one if the count increased.
+      const latestAlert = activeAlerts[0];
+      const isSwarmAlert = latestAlert?.kind === 'swarm';
+      // During quiet hours only critical alerts make a sound; the rest stay visual
+      const audible = !latestAlert || shouldSoundAlert(quietHours, latestAlert, new Date());
+
+      // The in-page banner is enough while the tab is in front
+      if (notificationsEnabled && latestAlert && document.visibilityState !== 'visible') {
+        const quake = earthquakes.find(q => q.id === latestAlert.quakeId);
+        const distanceKm = quake && userLocation
+          ? calculateDistance(userLocation.lat, userLocation.lng, quake.geometry.coordinates[1], quake.geometry.coordinates[0])
+          : null;
+        showAlertNotification(latestAlert, distanceKm, !audible).catch(e => console.error("Notification failed", e));
+      }
+      if (audible && isSwarmAlert) {
+        playSwarmChime();
+      } else if (audible) {
+        playAlertSiren();
+      }
+
+      if (audible && voiceAlertEnabled && latestAlert) {
+        speakAlert(buildAlertSpeech(latestAlert));
+      }
+
+      // Ask once per quake; swarms are many small events, nothing to check in about.
+      // Drills skip it so practice answers don't reach the family.
+      if (latestAlert && !isSwarmAlert && !latestAlert.isDrill && !checkIns.some(c => c.quakeId === latestAlert.quakeId)) {
+        setCheckInAlert(latestAlert);
       }
     }
     prevAlertCount.current = activeAlerts.length;
-  }, [activeAlerts, isSoundEnabled, sirenEnabled, volume, voiceAlertEnabled]);
+  }, [activeAlerts, isSoundEnabled, sirenEnabled, volume, voiceAlertEnabled, notificationsEnabled, quietHours, checkIns]);
+
+  // Escalating alarm: repeat the siren louder, and the voice, until acknowledged.
+  // Alerts silenced by quiet hours never escalate.
+  const escalatingAlert = useMemo(() => {
+    const now = new Date();
+    return pickEscalatingAlert(activeAlerts.filter(a => shouldSoundAlert(quietHours, a, now)), escalation);
+  }, [activeAlerts, quietHours, escalation]);
+  const escalationPolicy = escalatingAlert ? escalation[getAlertSeverity(escalatingAlert)] : null;
+
+  useEffect(() => {
+    if (!escalatingAlert || !escalationPolicy) return;
+    let repeat = 0;
+    const sirenTimer = setInterval(() => {
+      repeat++;
+      playAlertSiren(getSirenLevel(repeat));
+    }, escalationPolicy.sirenRepeatSec * 1000);
+    const voiceTimer = voiceAlertEnabled && escalationPolicy.voiceRepeatSec > 0
+      ? setInterval(() => speakAlert(buildAlertSpeech(escalatingAlert)), escalationPolicy.voiceRepeatSec * 1000)
+      : null;
+    return () => {
+      clearInterval(sirenTimer);
+      if (voiceTimer) clearInterval(voiceTimer);
+    };
+  }, [escalatingAlert?.id, escalationPolicy, isSoundEnabled, sirenEnabled, volume, voiceAlertEnabled]);
+
+  // Significant (Mag >= 5.5) and allowed to sound; a zone alert for it may
+  // already judge it critical from the zone's shaking
+  const isAudibleSignificantQuake = (quake: EarthquakeFeature, alerts: AlertNotification[]) => {
+    if (quake.properties.mag < 5.5) return false;
+    return shouldSoundQuake(quietHours, quake, userLocation, new Date())
+      || alerts.some(a => a.quakeId === quake.id && isCriticalAlert(quietHours, a));
+  };
 
   // Monitor New Significant Earthquakes for Sound
   useEffect(() => {
@@ -214,79 +640,229 @@ const App: React.FC = () => {
       
       // If we have a new latest quake (and it's not the initial load)
       if (prevLatestQuakeId.current && latest.id !== prevLatestQuakeId.current) {
-         // Check if significant (Mag >= 5.5)
-         if (latest.properties.mag >= 5.5) {
+         if (isAudibleSignificantQuake(latest, activeAlerts)) {
            playSignificantQuakeSound();
          }
       }
       
       prevLatestQuakeId.current = latest.id;
     }
-  }, [earthquakes, isSoundEnabled, quakeSoundEnabled, volume]);
+  }, [earthquakes, isSoundEnabled, quakeSoundEnabled, volume, quietHours]);
 
   // --- Logic ---
 
-  const checkZoneAlerts = (quakes: EarthquakeFeature[], currentZones: AlertZone[]) => {
-    if (currentZones.length === 0 || quakes.length === 0) return;
-
-    const newAlerts: AlertNotification[] = [];
-    const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000); // Only alert for recent quakes
+  const checkZoneAlerts = (
+    quakes: EarthquakeFeature[], 
+    currentZones: AlertZone[], 
+    revisedIds: Set<string> = new Set()
+  ): AlertNotification[] => {
+    if (currentZones.length === 0 || quakes.length === 0) return [];
+
+    const newAlerts = evaluateAlerts({
+      quakes,
+      zones: currentZones,
+      defaultMinMag: minAlertMag,
+      now: Date.now(),
+      // The whole log, not just what's on screen, so acknowledged alerts and reloads don't re-fire
+      existingAlertIds: new Set(alertLog.map(entry => entry.alert.id)),
+      revisedIds,
+      userLocation,
+    });
 
-    quakes.forEach(quake => {
-      // Check magnitude threshold
-      if (quake.properties.mag < minAlertMag) return;
+    if (newAlerts.length > 0) {
+      setAlertLog(prev => appendAlerts(prev, newAlerts));
+      // Two checks in one render both see the old log; only the first may send
+      const unsent = newAlerts.filter(alert => !dispatchedAlertIds.current.has(alert.id));
+      unsent.forEach(alert => dispatchedAlertIds.current.add(alert.id));
+      dispatchWebhooks(unsent, quakes, currentZones);
+    }
+    return newAlerts;
+  };
 
-      // Skip old quakes for alerts
-      if (quake.properties.time < oneDayAgo) return;
+  // --- Webhooks ---
+
+  const deliverWebhook = (hook: WebhookConfig, payload: WebhookPayload, summary: string) => {
+    const id = `${hook.id}-${payload.alert.id}-${Date.now()}`;
+    setWebhookLog(prev => appendDelivery(prev, {
+      id, hookId: hook.id, hookName: hook.name, summary, startedAt: Date.now(), status: 'pending', attempts: 1,
+    }));
+    sendWebhook(hook, payload, attempt => setWebhookLog(prev => updateDelivery(prev, id, { attempts: attempt + 1 })))
+      .then(status => setWebhookLog(prev => updateDelivery(prev, id, { status: 'delivered', httpStatus: status, finishedAt: Date.now() })))
+      .catch(e => {
+        const error = toFeedError(e);
+        console.error("Webhook delivery failed", error);
+        setWebhookLog(prev => updateDelivery(prev, id, {
+          status: 'failed',
+          httpStatus: error instanceof HttpError ? error.status : undefined,
+          error: error.message,
+          finishedAt: Date.now(),
+        }));
+      });
+  };
 
-      currentZones.forEach(zone => {
-        const dist = calculateDistance(
-          zone.lat, 
-          zone.lng, 
-          quake.geometry.coordinates[1], 
-          quake.geometry.coordinates[0]
+  const dispatchWebhooks = (alerts: AlertNotification[], quakes: EarthquakeFeature[], currentZones: AlertZone[]) => {
+    webhooks.forEach(hook => {
+      alerts.filter(alert => matchesWebhook(hook, alert)).forEach(alert => {
+        const payload = buildWebhookPayload(
+          alert,
+          quakes.find(q => q.id === alert.quakeId),
+          currentZones.find(z => z.id === alert.zoneId),
+          userLocation
         );
-
-        if (dist <= zone.radiusKm) {
-          // Check if we already alerted this combo (simple dedupe)
-          const alertId = `${quake.id}-${zone.id}`;
-          const exists = activeAlerts.find(a => a.id === alertId);
-          
-          if (!exists) {
-            newAlerts.push({
-              id: alertId,
-              quakeId: quake.id,
-              zoneId: zone.id,
-              zoneName: zone.name,
-              quakePlace: quake.properties.place,
-              mag: quake.properties.mag,
-              timestamp: quake.properties.time
-            });
-          }
-        }
+        deliverWebhook(hook, payload, `M${alert.mag.toFixed(1)} · ${alert.zoneName}${alert.isDrill ? ' (মহড়া)' : ''}`);
       });
     });
+  };
 
-    if (newAlerts.length > 0) {
-      // Add new alerts to start of list
-      setActiveAlerts(prev => [...newAlerts, ...prev]);
+  // Compares each zone's recent event rate with its archived baseline
+  const checkZoneRates = async (currentZones: AlertZone[]) => {
+    if (currentZones.length === 0) return;
+
+    const now = Date.now();
+    const history = await queryArchive({ startTime: now - BASELINE_MS, minMagnitude: COMPLETENESS_MAG });
+
+    const swarmAlerts = evaluateSwarmAlerts({
+      zones: currentZones,
+      events: history.features,
+      now,
+      coverage: getArchiveCoverage(),
+      existingAlertIds: new Set(alertLog.map(entry => entry.alert.id)),
+    });
+
+    if (swarmAlerts.length > 0) {
+      setAlertLog(prev => appendAlerts(prev, swarmAlerts));
     }
   };
 
   const loadData = async (selectedPeriod: TimePeriod = period) => {
-    setLoading(true);
+    const isFeed = !archiveQuery && !customQuery;
+    const feedKey = `${selectedPeriod}|${feedProviders.join(',')}`;
+    const cached = isFeed ? getCachedEarthquakes(selectedPeriod, feedProviders) : null;
+
+    // Stale-while-revalidate: show the last good response at once, then refresh
+    if (cached && shownFeed.current !== feedKey) {
+      setEarthquakes(cached.data.features);
+      setDataAsOf(cached.fetchedAt);
+      setLoading(false);
+    } else if (!cached) {
+      setLoading(true);
+    }
+    setRefreshing(true);
+    shownFeed.current = isFeed ? feedKey : null;
+
     try {
-      const data = await fetchEarthquakes(selectedPeriod);
+      const data = archiveQuery
+        ? await queryArchive(archiveQuery)
+        : customQuery 
+          ? await fetchFdsnEvents(customQuery) 
+          : await fetchEarthquakes(selectedPeriod, feedProviders);
       const sorted = data.features.sort((a, b) => b.properties.time - a.properties.time);
       setEarthquakes(sorted);
+      setIsArchiveFallback(false);
+      setDataAsOf(null);
+      setLoadError(null);
+      setRejectedCount(data.metadata.rejected ?? 0);
+
+      if (!archiveQuery) {
+        const fetchedAt = Date.now();
+        archiveEvents(sorted)
+          .then(() => {
+            // Custom queries can be historical or partial, so only live feeds count as coverage
+            if (!isFeed) return;
+            recordArchiveCoverage(fetchedAt - PERIOD_MS[selectedPeriod], fetchedAt);
+            return checkZoneRates(effectiveZones);
+          })
+          .catch(e => console.error("Failed to archive events or check zone rates", e));
+      }
+
+      // Compare against the previous poll to catch upgraded or relocated events
+      const revisions = detectRevisions(lastSnapshot.current, sorted);
+      sorted.forEach(q => lastSnapshot.current.set(q.id, q));
+      if (Object.keys(revisions).length > 0) {
+        setRevisionHistory(prev => appendRevisions(prev, revisions));
+      }
+      const revisedIds = new Set(
+        Object.keys(revisions).filter(id => crossesThreshold(revisions[id], minAlertMag))
+      );
+
+      if (customQuery) {
+        const pageSize = customQuery.limit ?? FDSN_PAGE_SIZE;
+        nextQueryOffset.current = (customQuery.offset ?? 1) + pageSize;
+        setHasMoreResults(isFullFdsnPage(data, pageSize));
+      } else {
+        setHasMoreResults(false);
+      }
       
       // Check for alerts immediately after loading data
-      checkZoneAlerts(sorted, zones);
+      checkZoneAlerts(sorted, effectiveZones, revisedIds);
       
     } catch (error) {
       console.error(error);
+      setLoadError(toFeedError(error));
+      if (cached) {
+        // Keep showing the cached feed, flagged as stale
+        setDataAsOf(cached.fetchedAt);
+      } else if (isFeed) {
+        // Offline or every agency failed: show what we collected earlier for the same window
+        try {
+          const archived = await queryArchive({ startTime: Date.now() - PERIOD_MS[selectedPeriod] });
+          if (archived.features.length > 0) {
+            setEarthquakes(archived.features);
+            setIsArchiveFallback(true);
+          }
+        } catch (archiveError) {
+          console.error("Archive fallback failed", archiveError);
+        }
+      }
     } finally {
       setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Fetches the next page of a custom query and appends it
+  const loadMoreResults = async () => {
+    if (!customQuery) return;
+    setIsLoadingMore(true);
+    try {
+      const pageSize = customQuery.limit ?? FDSN_PAGE_SIZE;
+      const data = await fetchFdsnEvents({ ...customQuery, offset: nextQueryOffset.current });
+      nextQueryOffset.current += pageSize;
+      const known = new Set(earthquakes.map(q => q.id));
+      const merged = [...earthquakes, ...data.features.filter(q => !known.has(q.id))]
+        .sort((a, b) => b.properties.time - a.properties.time);
+      setEarthquakes(merged);
+      setHasMoreResults(isFullFdsnPage(data, pageSize));
+    } catch (error) {
+      console.error(error);
+      setLoadError(toFeedError(error));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handlePeriodChange = (newPeriod: TimePeriod) => {
+    setCustomQuery(null);
+    setArchiveQuery(null);
+    setPeriod(newPeriod);
+  };
+
+  const handleCustomQuery = (query: FdsnQuery) => {
+    setArchiveQuery(null);
+    setCustomQuery(query);
+  };
+
+  const handleArchiveQuery = (query: ArchiveQuery) => {
+    setCustomQuery(null);
+    setArchiveQuery(query);
+  };
+
+  const handleClearArchive = async () => {
+    try {
+      await clearArchive();
+      setArchiveStats({ count: 0, oldest: null, newest: null });
+    } catch (e) {
+      console.error("Failed to clear archive", e);
     }
   };
 
@@ -297,13 +873,17 @@ const App: React.FC = () => {
     if (navigator.geolocation) {
       watchId = navigator.geolocation.watchPosition(
         (position) => {
-          setUserLocation({
+          const location = {
             lat: position.coords.latitude,
             lng: position.coords.longitude,
-          });
+          };
+          setUserLocation(location);
+          setFollowLocation(prev => smoothLocation(prev, location, Date.now()));
         },
         (error) => {
           console.error("Error watching location", error);
+          // Follow-me zones stay at the last known position until GPS returns
+          setFollowLocation(prev => prev && !prev.stale ? { ...prev, stale: true } : prev);
         },
         {
           enableHighAccuracy: true,
@@ -318,28 +898,95 @@ const App: React.FC = () => {
     };
   }, []); // Run once on mount
 
+  const loadDataRef = useRef(loadData);
+  loadDataRef.current = loadData;
+
   // Fetch data when period changes or initially
   useEffect(() => {
     loadData(period);
+  }, [period, feedProviders, customQuery, archiveQuery]);
 
-    // Refresh interval: only for 'day' mode to keep it real-time.
+  // Refresh interval: only for 'day' mode to keep it real-time.
+  // While the push stream is live, polling only backfills what it may have missed.
+  const isStreamLive = streamStatus === 'live';
+  useEffect(() => {
     // Fix: Use ReturnType<typeof setInterval> to avoid NodeJS.Timeout vs number conflicts
     let interval: ReturnType<typeof setInterval> | undefined;
-    if (period === 'day') {
-      interval = setInterval(() => loadData('day'), 300000); // 5 mins
+    if (period === 'day' && !customQuery && !archiveQuery) {
+      const delay = isStreamLive ? 900000 : 300000; // 15 / 5 mins
+      // Through the ref, so each poll sees the current alert log, zones and webhooks
+      interval = setInterval(() => loadDataRef.current('day'), delay);
     }
     
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [period]);
+  }, [period, feedProviders, customQuery, archiveQuery, isStreamLive]);
+
+  // Real-time push stream
+  useEffect(() => {
+    if (!streamEnabled || customQuery || archiveQuery) return;
+
+    const stream = connectQuakeStream({
+      onEvent: (quake) => {
+        setEarthquakes(prev => upsertEvent(prev, quake, PROVIDER_ORDER));
+        setStreamQueue(prev => [...prev, quake]);
+      },
+      onStatusChange: setStreamStatus,
+    });
+
+    return () => stream.stop();
+  }, [streamEnabled, customQuery, archiveQuery]);
+
+  // Alerts and revisions for pushed events, run here so they see current zones and alerts
+  useEffect(() => {
+    if (streamQueue.length === 0) return;
+
+    // Alert on the merged event the push landed in, so a later poll doesn't alert twice
+    const pushed = streamQueue
+      .map(q => earthquakes.find(e => e.id === q.id || e.reports?.some(r => r.eventId === q.id)) || q)
+      .filter((q, i, list) => list.indexOf(q) === i);
+    archiveEvents(pushed).catch(e => console.error("Failed to archive event", e));
+
+    const revisions = detectRevisions(lastSnapshot.current, pushed);
+    pushed.forEach(q => lastSnapshot.current.set(q.id, q));
+    if (Object.keys(revisions).length > 0) {
+      setRevisionHistory(prev => appendRevisions(prev, revisions));
+    }
+    const revisedIds = new Set(
+      Object.keys(revisions).filter(id => crossesThreshold(revisions[id], minAlertMag))
+    );
+
+    checkZoneAlerts(pushed, effectiveZones, revisedIds);
+    setStreamQueue([]);
+  }, [streamQueue]);
+
+  // Drill events fire on schedule into the same alert evaluation as real ones
+  useEffect(() => {
+    if (!drillRun) return;
+    const timers = drillRun.events.map(event =>
+      setTimeout(() => setDrillQueue(prev => [...prev, event.feature]), Math.max(0, event.fireAt - Date.now()))
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [drillRun]);
+
+  useEffect(() => {
+    if (drillQueue.length === 0) return;
+    setDrillQuakes(prev => [...drillQueue, ...prev]);
+    const drillAlerts = checkZoneAlerts(drillQueue, effectiveZones);
+    // Drill events never reach the feed, so the significant-quake sound is checked here
+    if (drillQueue.some(quake => isAudibleSignificantQuake(quake, drillAlerts))) {
+      playSignificantQuakeSound();
+    }
+    setDrillQueue([]);
+  }, [drillQueue]);
 
   // Re-check alerts if zones or threshold change
   useEffect(() => {
     if(earthquakes.length > 0) {
-       checkZoneAlerts(earthquakes, zones);
+       checkZoneAlerts(earthquakes, effectiveZones);
     }
-  }, [zones, minAlertMag]);
+  }, [effectiveZones, minAlertMag]);
 
   const addZone = (zone: AlertZone) => {
     setZones(prev => [...prev, { ...zone, isVisible: true }]);
@@ -359,29 +1006,189 @@ const App: React.FC = () => {
     setZones(prev => prev.filter(z => z.id !== id));
   };
 
-  const dismissAlert = (id: string) => {
-    setActiveAlerts(prev => prev.filter(a => a.id !== id));
+  const toggleFeedProvider = (id: FeedProviderId) => {
+    setFeedProviders(prev => {
+      if (prev.includes(id)) {
+        // Keep at least one agency selected
+        return prev.length > 1 ? prev.filter(p => p !== id) : prev;
+      }
+      return [...prev, id];
+    });
+  };
+
+  const addDataset = (dataset: ImportedDataset) => {
+    setDatasets(prev => [...prev, dataset]);
+  };
+
+  const toggleDatasetVisibility = (id: string) => {
+    setDatasets(prev => prev.map(d => d.id === id ? { ...d, isVisible: !d.isVisible } : d));
+  };
+
+  const deleteDataset = (id: string) => {
+    setDatasets(prev => prev.filter(d => d.id !== id));
+  };
+
+  const enableNotifications = async () => {
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    setNotificationsEnabled(permission === 'granted');
+  };
+
+  const togglePush = async () => {
+    if (pushEnabled) {
+      setPushEnabled(false);
+      await unsubscribeFromPush().catch(e => console.error("Push unsubscribe failed", e));
+      return;
+    }
+    if (notificationPermission !== 'granted') await enableNotifications();
+    setPushEnabled(true);
   };
 
+  const acknowledgeAlert = (ids: string[]) => {
+    setAlertLog(prev => acknowledgeAlerts(prev, new Set(ids)));
+  };
+
+  const snoozeActiveAlert = (id: string) => {
+    setAlertLog(prev => snoozeAlert(prev, id, SNOOZE_MINUTES));
+  };
+
+  const startDrill = () => {
+    const startedAt = Date.now();
+    setDrillQuakes([]);
+    setAlertLog(prev => removeDrillAlerts(prev));
+    setDrillRun({ startedAt, events: buildDrillEvents(drillScenario, startedAt) });
+    setShowSettings(false);
+  };
+
+  const stopDrill = () => {
+    setDrillRun(null);
+    setDrillQueue([]);
+    setDrillQuakes([]);
+    setAlertLog(prev => removeDrillAlerts(prev));
+  };
+
+  const drillAnchors = [
+    ...(userLocation ? [{ name: 'আমার অবস্থান', lat: userLocation.lat, lng: userLocation.lng }] : []),
+    ...effectiveZones.map(zone => ({ name: zone.name, lat: zone.lat, lng: zone.lng })),
+  ];
+
+  const recordCheckIn = (status: SafetyStatus, quakeId?: string) => {
+    // Fall back to the last known position when GPS is unavailable
+    const location = userLocation ?? (followLocation ? { lat: followLocation.lat, lng: followLocation.lng } : undefined);
+    const checkIn: CheckIn = { status, at: Date.now(), location, quakeId };
+    setCheckIns(prev => [checkIn, ...prev].slice(0, MAX_CHECK_INS));
+    setSharingCheckIn(checkIn);
+    setShowCheckIn(true);
+    setCheckInAlert(null);
+  };
+
+  const openCheckIn = () => {
+    setSharingCheckIn(null);
+    setShowFamilyBoard(false);
+    setShowCheckIn(true);
+  };
+
+  const getQuakeTitle = (quakeId?: string) =>
+    quakeId ? earthquakes.find(q => q.id === quakeId)?.properties.title : undefined;
+
   return (
     <div className="min-h-screen bg-slate-50 relative overflow-hidden flex flex-col">
+      {/* Escalation flash, behind the banners so they stay clickable */}
+      {escalationPolicy?.flash && (
+        <div className={`fixed inset-0 z-[1900] pointer-events-none bg-red-600/40 ${reduceAnimation ? '' : 'animate-pulse'}`} />
+      )}
+
       {/* ALERT OVERLAY */}
       <div className="fixed top-4 left-4 right-4 z-[2000] flex flex-col gap-2 pointer-events-none">
-        {activeAlerts.map(alert => (
+        {drillRun && (
+          <div className="pointer-events-auto bg-amber-400 text-amber-950 px-4 py-2 rounded-xl shadow-lg flex items-center justify-between">
+            <span className="text-sm font-bold flex items-center">
+              <FlaskConical size={16} className="mr-2"/> মহড়া চলছে — {drillScenario.name}
+            </span>
+            <button onClick={stopDrill} className="px-3 py-1 bg-amber-950 text-amber-50 rounded-lg text-xs font-bold flex items-center">
+              <Square size={12} className="mr-1"/> শেষ করুন
+            </button>
+          </div>
+        )}
+        {activeAlerts.map(alert => alert.kind === 'swarm' && alert.swarm ? (
+          <div key={alert.id} className="pointer-events-auto bg-indigo-600 text-white p-4 rounded-xl shadow-2xl border-l-4 border-amber-300 flex items-start animate-in slide-in-from-top-2">
+             <div className="bg-white/20 p-2 rounded-full mr-3">
+               <Activity size={24} className="text-white" />
+             </div>
+             <div className="flex-1">
+               <h4 className="font-bold text-sm">অস্বাভাবিক কম্পন প্রবণতা: {alert.zoneName}</h4>
+               <p className="text-xs text-indigo-100 mt-1">
+                 গত {alert.swarm.windowHours} ঘণ্টায় {alert.swarm.count} টি ভূমিকম্প (স্বাভাবিক ~{alert.swarm.expected.toFixed(1)} টি)।<br/>
+                 সর্বোচ্চ মাত্রা {alert.mag.toFixed(1)} · সর্বশেষ: {alert.quakePlace}
+               </p>
+               {alert.id === escalatingAlert?.id && (
+                 <button
+                   onClick={() => acknowledgeAlert([alert.id])}
+                   className="mt-3 w-full py-2 bg-white text-red-600 rounded-lg font-bold text-sm flex items-center justify-center shadow"
+                 >
+                   <Check size={16} className="mr-1.5"/> স্বীকার করুন — অ্যালার্ম বন্ধ
+                 </button>
+               )}
+             </div>
+             <div className="flex flex-col items-center gap-2 ml-2">
+               <button onClick={() => acknowledgeAlert([alert.id])} className="text-white/60 hover:text-white" title="স্বীকার করুন">
+                 <X size={20} />
+               </button>
+               <button onClick={() => snoozeActiveAlert(alert.id)} className="text-white/60 hover:text-white" title={`${SNOOZE_MINUTES} মিনিট স্নুজ`}>
+                 <BellOff size={18} />
+               </button>
+             </div>
+          </div>
+        ) : (
           <div key={alert.id} className="pointer-events-auto bg-red-500 text-white p-4 rounded-xl shadow-2xl border-l-4 border-yellow-400 flex items-start animate-in slide-in-from-top-2">
              <div className="bg-white/20 p-2 rounded-full mr-3">
                <AlertOctagon size={24} className="text-white animate-pulse" />
              </div>
              <div className="flex-1">
-               <h4 className="font-bold text-sm">সতর্কবার্তা: {alert.zoneName}</h4>
+               <h4 className="font-bold text-sm flex items-center">
+                 সতর্কবার্তা: {alert.zoneName}
+                 {alert.revised && (
+                   <span className="ml-2 text-[10px] font-bold bg-yellow-400 text-red-900 px-1.5 py-0.5 rounded">সংশোধিত</span>
+                 )}
+                 {alert.isDrill && (
+                   <span className="ml-2 text-[10px] font-bold bg-amber-300 text-amber-950 px-1.5 py-0.5 rounded">মহড়া</span>
+                 )}
+               </h4>
                <p className="text-xs text-red-100 mt-1">
                  {alert.mag} মাত্রার ভূমিকম্প শনাক্ত হয়েছে।<br/>
                  স্থান: {alert.quakePlace}
                </p>
+               {alert.mmi !== undefined && (
+                 <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[11px]">
+                   <span className={`font-bold px-1.5 py-0.5 rounded ${getMmiColor(alert.mmi)}`}>
+                     MMI {formatMmi(alert.mmi)}
+                   </span>
+                   <span className="text-red-100">আনুমানিক তীব্রতা: {getMmiLabel(alert.mmi)}</span>
+                   {alert.userMmi !== undefined && (
+                     <span className="text-red-100">
+                       · আপনার অবস্থানে: <span className="font-bold text-white">{formatMmi(alert.userMmi)}</span>
+                     </span>
+                   )}
+                 </div>
+               )}
+               {alert.sArrival !== undefined && <WaveCountdown sArrival={alert.sArrival} reduceAnimation={reduceAnimation} />}
+               {alert.id === escalatingAlert?.id && (
+                 <button
+                   onClick={() => acknowledgeAlert([alert.id])}
+                   className="mt-3 w-full py-2 bg-white text-red-600 rounded-lg font-bold text-sm flex items-center justify-center shadow"
+                 >
+                   <Check size={16} className="mr-1.5"/> স্বীকার করুন — অ্যালার্ম বন্ধ
+                 </button>
+               )}
+             </div>
+             <div className="flex flex-col items-center gap-2 ml-2">
+               <button onClick={() => acknowledgeAlert([alert.id])} className="text-white/60 hover:text-white" title="স্বীকার করুন">
+                 <X size={20} />
+               </button>
+               <button onClick={() => snoozeActiveAlert(alert.id)} className="text-white/60 hover:text-white" title={`${SNOOZE_MINUTES} মিনিট স্নুজ`}>
+                 <BellOff size={18} />
+               </button>
              </div>
-             <button onClick={() => dismissAlert(alert.id)} className="text-white/60 hover:text-white ml-2">
-               <X size={20} />
-             </button>
           </div>
         ))}
       </div>
@@ -391,11 +1198,43 @@ const App: React.FC = () => {
         <header className="bg-white border-b border-slate-200 px-4 py-4 sticky top-0 z-50 flex justify-between items-center shadow-sm">
           <div>
             <h1 className="text-2xl font-bold text-slate-800">ভূমিকম্প <span className="text-rose-600">অ্যালার্ট</span></h1>
-            <p className="text-xs text-slate-500">
-              {period === 'day' ? 'রিয়েল টাইম আপডেট' : period === 'week' ? 'গত ৭ দিনের তথ্য' : 'গত ৩০ দিনের তথ্য'}
+            <p className="text-xs text-slate-500 flex items-center">
+              {isArchiveFallback ? 'অফলাইন — আর্কাইভ থেকে' : archiveQuery ? 'লোকাল আর্কাইভ' : customQuery ? 'কাস্টম অনুসন্ধান' : period === 'day' ? 'রিয়েল টাইম আপডেট' : period === 'week' ? 'গত ৭ দিনের তথ্য' : 'গত ৩০ দিনের তথ্য'}
+              {streamEnabled && streamStatus !== 'off' && (
+                <span className={`ml-2 inline-flex items-center text-[10px] font-bold px-1.5 py-0.5 rounded-full ${STREAM_STATUS_STYLES[streamStatus].className}`}>
+                  <span className={`w-1.5 h-1.5 rounded-full mr-1 bg-current ${streamStatus === 'live' && !reduceAnimation ? 'animate-pulse' : ''}`}></span>
+                  {STREAM_STATUS_STYLES[streamStatus].label}
+                </span>
+              )}
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <button 
+              onClick={() => setShowFamilyBoard(true)} 
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors"
+              title="পরিবারের অবস্থা"
+            >
+              <Users size={20} className="text-slate-600"/>
+            </button>
+            <button 
+              onClick={() => setShowAlertHistory(true)} 
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors relative"
+              title="অ্যালার্ট ইতিহাস"
+            >
+              <History size={20} className="text-slate-600"/>
+              {pendingAlertCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 bg-rose-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                  {pendingAlertCount}
+                </span>
+              )}
+            </button>
+            <button 
+              onClick={() => setShowDatasets(true)} 
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors"
+              title="ডেটাসেট"
+            >
+              <Database size={20} className="text-slate-600"/>
+            </button>
             <button 
               onClick={() => setShowSettings(true)} 
               className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors"
@@ -405,15 +1244,44 @@ const App: React.FC = () => {
             </button>
             <button 
               onClick={() => loadData(period)} 
-              disabled={loading}
+              disabled={loading || refreshing}
               className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors"
             >
-              <RefreshCw size={20} className={`text-slate-600 ${loading ? 'animate-spin' : ''}`} />
+              <RefreshCw size={20} className={`text-slate-600 ${loading || refreshing ? 'animate-spin' : ''}`} />
             </button>
           </div>
         </header>
       )}
 
+      {/* Feed status */}
+      {view !== 'map' && (loadError || rejectedCount > 0 || dataAsOf !== null) && (
+        <div className="px-4 pt-3 max-w-2xl mx-auto w-full space-y-1">
+          {dataAsOf !== null && (
+            <div className="bg-slate-100 border border-slate-200 text-slate-600 text-xs rounded-xl px-3 py-2 flex items-center">
+              <Clock size={14} className="mr-2 flex-shrink-0" />
+              <span className="flex-1">
+                তথ্য {new Date(dataAsOf).toLocaleTimeString('bn-BD', { hour: '2-digit', minute: '2-digit' })} পর্যন্ত <span className="font-semibold text-amber-600">(পুরনো)</span>
+              </span>
+              {refreshing && <RefreshCw size={12} className="animate-spin text-slate-400" />}
+            </div>
+          )}
+          {loadError && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-xl p-3 flex items-start animate-in slide-in-from-top-2">
+              {loadError.kind === 'offline'
+                ? <WifiOff size={16} className="mr-2 flex-shrink-0" />
+                : <AlertTriangle size={16} className="mr-2 flex-shrink-0" />}
+              <span className="flex-1">{getFeedErrorMessage(loadError)}</span>
+              <button onClick={() => setLoadError(null)} className="text-amber-500 hover:text-amber-700 ml-2">
+                <X size={14} />
+              </button>
+            </div>
+          )}
+          {rejectedCount > 0 && (
+            <p className="text-[11px] text-slate-400 text-center">{rejectedCount} টি ত্রুটিপূর্ণ রেকর্ড বাদ দেওয়া হয়েছে</p>
+          )}
+        </div>
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -452,9 +1320,117 @@ const App: React.FC = () => {
                       {minAlertMag}-এর চেয়ে কম মাত্রার ভূমিকম্পে জোন অ্যালার্ট আসবে না।
                     </p>
                  </div>
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 mt-3 space-y-3">
+                    {notificationPermission === 'unsupported' ? (
+                      <p className="text-xs text-slate-500">এই ব্রাউজারে সিস্টেম নোটিফিকেশন সমর্থিত নয়।</p>
+                    ) : notificationPermission === 'denied' ? (
+                      <p className="text-xs text-rose-600 leading-relaxed">
+                        নোটিফিকেশনের অনুমতি বন্ধ করা আছে। ব্রাউজারের সাইট সেটিংস থেকে অনুমতি দিন।
+                      </p>
+                    ) : notificationPermission === 'default' ? (
+                      <div className="space-y-2">
+                        <p className="text-xs text-slate-600 leading-relaxed">
+                          অ্যাপ ব্যাকগ্রাউন্ডে থাকলেও জোন অ্যালার্ট পেতে সিস্টেম নোটিফিকেশন চালু করুন।
+                        </p>
+                        <button
+                          onClick={enableNotifications}
+                          className="w-full py-2 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 flex items-center justify-center"
+                        >
+                          <BellRing size={14} className="mr-1.5"/> নোটিফিকেশনের অনুমতি দিন
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="font-medium text-slate-800 text-sm">সিস্টেম নোটিফিকেশন</div>
+                          <div className="text-xs text-slate-500">ট্যাব ব্যাকগ্রাউন্ডে থাকলে</div>
+                        </div>
+                        <button 
+                          onClick={() => setNotificationsEnabled(!notificationsEnabled)}
+                          className={`w-10 h-6 rounded-full transition-colors relative ${notificationsEnabled ? 'bg-green-500' : 'bg-slate-300'}`}
+                        >
+                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${notificationsEnabled ? 'translate-x-4' : ''}`}></div>
+                        </button>
+                      </div>
+                    )}
+
+                    {isPushAvailable() && notificationPermission !== 'unsupported' && notificationPermission !== 'denied' && (
+                      <div className="flex items-center justify-between pt-3 border-t border-slate-200">
+                        <div>
+                          <div className="font-medium text-slate-800 text-sm">ওয়েব পুশ</div>
+                          <div className="text-xs text-slate-500">অ্যাপ বন্ধ থাকলেও সার্ভার থেকে অ্যালার্ট</div>
+                        </div>
+                        <button 
+                          onClick={togglePush}
+                          className={`w-10 h-6 rounded-full transition-colors relative ${pushEnabled ? 'bg-green-500' : 'bg-slate-300'}`}
+                        >
+                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${pushEnabled ? 'translate-x-4' : ''}`}></div>
+                        </button>
+                      </div>
+                    )}
+                    {pushError && pushEnabled && <p className="text-xs text-rose-600">{pushError}</p>}
+
+                    <div className="flex items-center justify-between pt-3 border-t border-slate-200">
+                      <div>
+                        <div className="font-medium text-slate-800 text-sm">ওয়েবহুক</div>
+                        <div className="text-xs text-slate-500">
+                          {webhooks.length === 0
+                            ? 'চ্যাট বা PA সিস্টেমে অ্যালার্ট পাঠান'
+                            : `${webhooks.filter(h => h.enabled).length}/${webhooks.length} টি চালু`}
+                          {webhookLog[0] && ` · শেষ: ${webhookLog[0].status === 'delivered' ? 'পৌঁছেছে' : webhookLog[0].status === 'failed' ? 'ব্যর্থ' : 'পাঠানো হচ্ছে'}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setShowWebhooks(true)}
+                        className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-xs font-medium text-slate-700 flex items-center hover:bg-slate-100"
+                      >
+                        <Webhook size={14} className="mr-1.5"/> সাজান
+                      </button>
+                    </div>
+                 </div>
               </div>
 
-              {/* Section 2: Sound */}
+              {/* Section 2: Data Sources */}
+              <div>
+                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center">
+                    <Radio size={14} className="mr-2"/> তথ্যের উৎস (Data Sources)
+                 </h4>
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-2">
+                    {PROVIDER_ORDER.map(id => {
+                      const provider = PROVIDERS[id];
+                      const available = provider.isAvailable();
+                      const enabled = feedProviders.includes(id);
+                      return (
+                        <label key={id} className={`flex items-center justify-between ${available ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                          <span className="text-xs text-slate-700">{provider.name}</span>
+                          <div 
+                            className={`w-4 h-4 rounded border flex items-center justify-center ${enabled && available ? 'bg-blue-600 border-blue-600' : 'border-slate-300'}`} 
+                            onClick={() => available && toggleFeedProvider(id)}
+                          >
+                            {enabled && available && <Check size={10} className="text-white" />}
+                          </div>
+                        </label>
+                      );
+                    })}
+                    <div className="flex items-center justify-between pt-2 border-t border-slate-200">
+                      <div>
+                        <div className="font-medium text-slate-800 text-sm">লাইভ স্ট্রিম</div>
+                        <div className="text-xs text-slate-500">নতুন ভূমিকম্প সাথে সাথে পেতে (EMSC)</div>
+                      </div>
+                      <button 
+                        onClick={() => setStreamEnabled(!streamEnabled)}
+                        className={`w-10 h-6 rounded-full transition-colors relative ${streamEnabled ? 'bg-green-500' : 'bg-slate-300'}`}
+                      >
+                        <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${streamEnabled ? 'translate-x-4' : ''}`}></div>
+                      </button>
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed pt-1">
+                      একাধিক সংস্থা একই ভূমিকম্প জানালে সেগুলো একত্রে দেখানো হবে।
+                    </p>
+                 </div>
+              </div>
+
+              {/* Section 3: Sound */}
               <div>
                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center">
                     <Volume2 size={14} className="mr-2"/> সাউন্ড (Sound)
@@ -527,9 +1503,20 @@ const App: React.FC = () => {
                       </div>
                     )}
                  </div>
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 mt-3">
+                    <QuietHoursEditor
+                      value={quietHours}
+                      onChange={setQuietHours}
+                      isQuietNow={isQuietTime(quietHours, new Date())}
+                    />
+                 </div>
+
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 mt-3">
+                    <EscalationEditor value={escalation} onChange={setEscalation} />
+                 </div>
               </div>
               
-              {/* Section 3: Map & Appearance */}
+              {/* Section 4: Map & Appearance */}
               <div>
                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center">
                     <MapIcon size={14} className="mr-2"/> ম্যাপ ও দৃশ্যমানতা
@@ -572,6 +1559,84 @@ const App: React.FC = () => {
                  </div>
               </div>
 
+              {/* Section 5: Drill */}
+              <div>
+                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center">
+                    <FlaskConical size={14} className="mr-2"/> মহড়া (Drill)
+                 </h4>
+
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-4">
+                    <p className="text-xs text-slate-500">
+                      কাল্পনিক ভূমিকম্প দিয়ে পুরো অ্যালার্ট ব্যবস্থা পরীক্ষা করুন — জোন, ব্যানার, সাইরেন, ভয়েস ও কাউন্টডাউন আসল ঘটনার মতোই চলবে। মহড়ার ঘটনা এক্সপোর্ট, আর্কাইভ বা ইতিহাসে যাবে না।
+                    </p>
+                    <DrillEditor value={drillScenario} onChange={setDrillScenario} anchors={drillAnchors} />
+                    {drillRun ? (
+                      <button
+                        onClick={stopDrill}
+                        className="w-full py-2 text-sm font-bold text-amber-900 bg-amber-100 border border-amber-300 rounded-lg flex items-center justify-center"
+                      >
+                        <Square size={14} className="mr-1.5"/> মহড়া শেষ করুন
+                      </button>
+                    ) : (
+                      <button
+                        onClick={startDrill}
+                        disabled={effectiveZones.length === 0}
+                        className="w-full py-2 text-sm font-bold text-white bg-amber-500 rounded-lg hover:bg-amber-600 flex items-center justify-center disabled:opacity-40"
+                      >
+                        <Play size={14} className="mr-1.5"/> মহড়া শুরু করুন
+                      </button>
+                    )}
+                    {effectiveZones.length === 0 && (
+                      <p className="text-[11px] text-slate-400 text-center">মহড়ার জন্য অন্তত একটি জোন দরকার</p>
+                    )}
+                 </div>
+              </div>
+
+              {/* Section 6: Archive */}
+              <div>
+                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center">
+                    <Archive size={14} className="mr-2"/> লোকাল আর্কাইভ (Archive)
+                 </h4>
+                 
+                 <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-4">
+                    <div className="flex justify-between text-xs text-slate-600">
+                      <span>সংরক্ষিত ঘটনা: <span className="font-bold">{archiveStats ? archiveStats.count : '-'}</span></span>
+                      {archiveStats?.oldest && (
+                        <span>শুরু: <span className="font-bold">{new Date(archiveStats.oldest).toLocaleDateString('bn-BD')}</span></span>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="text-xs font-medium text-slate-600 mb-2 block">কতদিন রাখা হবে</label>
+                      <div className="grid grid-cols-4 gap-2">
+                         {RETENTION_OPTIONS.map(days => (
+                            <button
+                              key={days}
+                              onClick={() => setArchiveRetentionDays(days)}
+                              className={`px-2 py-2 rounded-lg text-xs font-medium border transition-colors ${
+                                archiveRetentionDays === days 
+                                  ? 'bg-blue-600 text-white border-blue-600' 
+                                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                              }`}
+                            >
+                               {days === 90 && '৯০ দিন'}
+                               {days === 365 && '১ বছর'}
+                               {days === 1825 && '৫ বছর'}
+                               {days === 0 && 'সীমাহীন'}
+                            </button>
+                         ))}
+                      </div>
+                    </div>
+
+                    <button
+                      onClick={handleClearArchive}
+                      className="w-full py-2 text-xs font-medium text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 flex items-center justify-center"
+                    >
+                      <Trash2 size={14} className="mr-1.5"/> আর্কাইভ মুছে ফেলুন
+                    </button>
+                 </div>
+              </div>
+
             </div>
             
             <div className="bg-slate-50 p-4 border-t border-slate-100 mt-auto">
@@ -583,24 +1648,126 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showWebhooks && (
+        <WebhookManager
+          hooks={webhooks}
+          log={webhookLog}
+          zones={zones}
+          onChange={setWebhooks}
+          onTest={(hook) => deliverWebhook(hook, buildTestPayload(), 'পরীক্ষা')}
+          onClearLog={() => setWebhookLog([])}
+          onClose={() => setShowWebhooks(false)}
+        />
+      )}
+
+      {/* Dataset Manager Modal */}
+      {showDatasets && (
+        <DatasetManager 
+          datasets={datasets}
+          showLiveData={showLiveData}
+          onToggleLiveData={() => setShowLiveData(!showLiveData)}
+          onAddDataset={addDataset}
+          onToggleDatasetVisibility={toggleDatasetVisibility}
+          onDeleteDataset={deleteDataset}
+          onClose={() => setShowDatasets(false)}
+        />
+      )}
+
+      {showAlertHistory && (
+        <AlertHistory
+          log={alertLog}
+          onAcknowledge={acknowledgeAlert}
+          onSnooze={snoozeActiveAlert}
+          onClear={() => setAlertLog(prev => clearAcknowledged(prev))}
+          onClose={() => setShowAlertHistory(false)}
+        />
+      )}
+
+      {showCheckIn && (
+        <SafetyCheckIn
+          checkIn={sharingCheckIn}
+          quakeTitle={getQuakeTitle(sharingCheckIn?.quakeId ?? checkInAlert?.quakeId)}
+          name={checkInName}
+          onNameChange={setCheckInName}
+          onAnswer={(status) => recordCheckIn(status, checkInAlert?.quakeId)}
+          onClose={() => setShowCheckIn(false)}
+        />
+      )}
+
+      {showFamilyBoard && (
+        <FamilyBoard
+          board={familyBoard}
+          myLatest={checkIns[0] ?? null}
+          earthquakes={earthquakes}
+          onAdd={(checkIn) => setFamilyBoard(prev => addToFamilyBoard(prev, { ...checkIn, receivedAt: Date.now() }))}
+          onRemove={(checkIn) => setFamilyBoard(prev => prev.filter(c => c !== checkIn))}
+          onCheckIn={openCheckIn}
+          onClose={() => setShowFamilyBoard(false)}
+        />
+      )}
+
+      {/* "Are you safe?" prompt after a zone alert */}
+      {checkInAlert && !showCheckIn && (
+        <div className="fixed bottom-20 left-4 right-4 z-[1950] bg-white rounded-xl shadow-2xl border border-emerald-200 p-3 animate-in slide-in-from-bottom-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center">
+              <HeartHandshake size={20} className="mr-2 text-emerald-600"/>
+              <div>
+                <div className="font-bold text-sm text-slate-800">আপনি কি নিরাপদ আছেন?</div>
+                <div className="text-[11px] text-slate-500">{checkInAlert.zoneName} · M{checkInAlert.mag.toFixed(1)} — পরিবারকে জানিয়ে দিন</div>
+              </div>
+            </div>
+            <button onClick={() => setCheckInAlert(null)} className="text-slate-400 hover:text-slate-600">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <button
+              onClick={() => recordCheckIn('safe', checkInAlert.quakeId)}
+              className="py-2 rounded-lg bg-emerald-600 text-white font-bold text-sm hover:bg-emerald-700"
+            >
+              আমি নিরাপদ
+            </button>
+            <button
+              onClick={() => recordCheckIn('needHelp', checkInAlert.quakeId)}
+              className="py-2 rounded-lg bg-rose-600 text-white font-bold text-sm hover:bg-rose-700"
+            >
+              সাহায্য দরকার
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 relative">
         {view === 'list' && (
           <EarthquakeList 
-            earthquakes={earthquakes} 
+            earthquakes={displayedQuakes} 
             loading={loading} 
             period={period}
-            onPeriodChange={setPeriod}
+            onPeriodChange={handlePeriodChange}
             userLocation={userLocation}
+            customQuery={customQuery}
+            onCustomQuery={handleCustomQuery}
+            archiveQuery={archiveQuery}
+            onArchiveQuery={handleArchiveQuery}
+            hasMoreResults={hasMoreResults}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMoreResults}
+            revisions={revisionHistory}
+            sequences={sequences}
+            focusQuakeId={focusQuakeId}
+            onFocusHandled={() => setFocusQuakeId(null)}
           />
         )}
         
         {view === 'map' && (
           <div className="absolute inset-0 h-full w-full">
             <MapView 
-              earthquakes={earthquakes} 
+              earthquakes={displayedQuakes} 
               userLocation={userLocation} 
-              zones={zones}
+              zones={effectiveZones}
+              isFollowLocationStale={followLocation?.stale ?? false}
               activeAlerts={activeAlerts}
               onAddZone={addZone}
               onUpdateZone={updateZone}
@@ -608,11 +1775,18 @@ const App: React.FC = () => {
               onDeleteZone={deleteZone}
               onLocationUpdate={setUserLocation}
               onRefresh={() => loadData(period)}
-              isLoading={loading}
+              isLoading={loading || refreshing}
               reduceAnimation={reduceAnimation}
               onToggleAnimation={() => setReduceAnimation(!reduceAnimation)}
               mapStyle={mapStyle}
               onMapStyleChange={setMapStyle}
+              densityMode={mapDensityMode}
+              onDensityModeChange={setMapDensityMode}
+              densityWeight={densityWeight}
+              onDensityWeightChange={setDensityWeight}
+              onOpenDatasets={() => setShowDatasets(true)}
+              defaultMinMag={minAlertMag}
+              sequences={sequences}
             />
           </div>
         )}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AftershockSequence } from '../types';
+import { forecastAftershocks, getForecastMagnitudes } from '../utils/aftershocks';
+import { getRegionName } from '../services/earthquakeService';
+import { GitBranch } from 'lucide-react';
+
+interface AftershockPanelProps {
+  sequences: AftershockSequence[]; // Active sequences only
+}
+
+const FORECAST_DAYS = [1, 7];
+const MAX_SHOWN = 3;
+
+const formatExpected = (n: number) => n >= 10 ? Math.round(n).toString() : n >= 0.1 ? n.toFixed(1) : '<0.1';
+
+const AftershockPanel: React.FC<AftershockPanelProps> = ({ sequences }) => {
+  if (sequences.length === 0) return null;
+  const now = Date.now();
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm mb-4 overflow-hidden">
+      <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex items-center">
+        <GitBranch size={16} className="mr-2 text-indigo-600" />
+        <h3 className="text-sm font-bold text-slate-800">আফটারশক পূর্বাভাস</h3>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {sequences.slice(0, MAX_SHOWN).map(sequence => {
+          const { mainshock } = sequence;
+          return (
+            <div key={sequence.id} className="p-4">
+              <div className="flex justify-between items-start mb-2">
+                <div className="min-w-0 mr-2">
+                  <div className="text-sm font-semibold text-slate-800 truncate">
+                    M{mainshock.properties.mag.toFixed(1)} · {getRegionName(mainshock.properties.place)}
+                  </div>
+                  <div className="text-[11px] text-slate-500">
+                    {sequence.aftershockIds.length} টি আফটারশক · {Math.round(sequence.radiusKm)} কিমি এলাকা
+                  </div>
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 text-[10px]">
+                    <th className="text-left font-semibold py-1">মাত্রা</th>
+                    {FORECAST_DAYS.map(days => (
+                      <th key={days} className="text-right font-semibold py-1">{days === 1 ? 'আগামী ১ দিন' : 'আগামী ৭ দিন'}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {getForecastMagnitudes(mainshock.properties.mag).map(minMag => (
+                    <tr key={minMag} className="border-t border-slate-50">
+                      <td className="py-1 font-semibold text-slate-700">M{minMag}+</td>
+                      {FORECAST_DAYS.map(days => {
+                        const forecast = forecastAftershocks(mainshock, minMag, days, now);
+                        return (
+                          <td key={days} className="py-1 text-right text-slate-600">
+                            <span className="font-semibold text-slate-800">{formatExpected(forecast.expected)}</span> টি
+                            <span className="text-slate-400 ml-1">({Math.round(forecast.probability * 100)}%)</span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+      <p className="px-4 py-2 text-[10px] text-slate-400 bg-slate-50 border-t border-slate-100">
+        সাধারণ Omori ও Gutenberg-Richter মডেলের আনুমানিক হিসাব; বন্ধনীতে অন্তত একটি ঘটার সম্ভাবনা।
+      </p>
+    </div>
+  );
+};
+
+export default AftershockPanel;
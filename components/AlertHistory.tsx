@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { AlertLogAction, AlertLogEntry, AlertStatus } from '../types';
+import { getAlertStatus, SNOOZE_MINUTES } from '../utils/alertLog';
+import { History, X, Check, BellOff, Trash2 } from 'lucide-react';
+
+interface AlertHistoryProps {
+  log: AlertLogEntry[];
+  onAcknowledge: (ids: string[]) => void;
+  onSnooze: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type StatusFilter = AlertStatus | 'all';
+
+const STATUS_STYLES: Record<AlertStatus, { className: string; label: string }> = {
+  active: { className: 'bg-rose-100 text-rose-700', label: 'সক্রিয়' },
+  snoozed: { className: 'bg-amber-100 text-amber-700', label: 'স্নুজ' },
+  acknowledged: { className: 'bg-green-100 text-green-700', label: 'স্বীকৃত' },
+};
+
+const ACTION_LABELS: Record<AlertLogAction, string> = {
+  fired: 'অ্যালার্ট',
+  acknowledged: 'স্বীকার',
+  snoozed: 'স্নুজ',
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString('bn-BD', {
+  day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'
+});
+
+const AlertHistory: React.FC<AlertHistoryProps> = ({ log, onAcknowledge, onSnooze, onClear, onClose }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [zoneFilter, setZoneFilter] = useState<string>('all');
+
+  // Drill alerts are practice, not history
+  const visible = useMemo(() => log.filter(entry => !entry.clearedAt && !entry.alert.isDrill), [log]);
+
+  const zoneNames = useMemo(() => {
+    const names = new Map<string, string>();
+    visible.forEach(entry => names.set(entry.alert.zoneId, entry.alert.zoneName));
+    return Array.from(names.entries());
+  }, [visible]);
+
+  const now = Date.now();
+  const filtered = visible.filter(entry =>
+    (statusFilter === 'all' || getAlertStatus(entry, now) === statusFilter) &&
+    (zoneFilter === 'all' || entry.alert.zoneId === zoneFilter)
+  );
+  const pendingIds = visible.filter(entry => !entry.acknowledgedAt).map(entry => entry.alert.id);
+  const hasAcknowledged = visible.some(entry => entry.acknowledgedAt);
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center">
+            <History size={18} className="mr-2 text-slate-500"/> অ্যালার্ট ইতিহাস
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-slate-100">
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(['all', 'active', 'snoozed', 'acknowledged'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`flex-1 py-1 text-xs font-semibold rounded-md transition-all ${
+                  statusFilter === status
+                    ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black/5'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {status === 'all' ? 'সব' : STATUS_STYLES[status].label}
+              </button>
+            ))}
+          </div>
+
+          {zoneNames.length > 1 && (
+            <select
+              value={zoneFilter}
+              onChange={(e) => setZoneFilter(e.target.value)}
+              className="w-full p-1.5 border border-slate-300 rounded-lg text-xs bg-white text-slate-600"
+            >
+              <option value="all">সব জোন</option>
+              {zoneNames.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+            </select>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onAcknowledge(pendingIds)}
+              disabled={pendingIds.length === 0}
+              className="flex-1 py-1.5 rounded-lg text-xs font-medium flex items-center justify-center bg-blue-600 text-white disabled:opacity-40"
+            >
+              <Check size={14} className="mr-1"/> সব স্বীকার করুন
+            </button>
+            <button
+              onClick={onClear}
+              disabled={!hasAcknowledged}
+              className="flex-1 py-1.5 rounded-lg text-xs font-medium flex items-center justify-center bg-rose-50 text-rose-600 border border-rose-100 disabled:opacity-40"
+            >
+              <Trash2 size={14} className="mr-1"/> স্বীকৃতগুলো মুছুন
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto">
+          {filtered.length === 0 && <p className="text-center text-xs text-slate-400 py-4">কোনো অ্যালার্ট নেই</p>}
+          {filtered.map(entry => {
+            const status = getAlertStatus(entry, now);
+            return (
+              <div key={entry.alert.id} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0 mr-2">
+                    <div className="font-semibold text-sm text-slate-700 truncate">
+                      {entry.alert.zoneName} · {entry.alert.kind === 'swarm' && entry.alert.swarm ? `${entry.alert.swarm.count} টির ঝাঁক` : `M${entry.alert.mag}`}
+                    </div>
+                    <div className="text-xs text-slate-500 truncate">{entry.alert.quakePlace}</div>
+                  </div>
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full ${STATUS_STYLES[status].className}`}>
+                    {STATUS_STYLES[status].label}
+                  </span>
+                </div>
+
+                <ul className="mt-2 space-y-0.5 text-[10px] text-slate-500">
+                  {entry.audit.map((event, i) => (
+                    <li key={i}>
+                      {formatTime(event.at)} — {ACTION_LABELS[event.action]}
+                      {event.until && ` (${formatTime(event.until)} পর্যন্ত)`}
+                    </li>
+                  ))}
+                </ul>
+
+                {status !== 'acknowledged' && (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => onAcknowledge([entry.alert.id])}
+                      className="flex-1 py-1 rounded text-[11px] font-medium flex items-center justify-center bg-white border border-slate-200 text-slate-700 hover:bg-slate-100"
+                    >
+                      <Check size={12} className="mr-1"/> স্বীকার
+                    </button>
+                    <button
+                      onClick={() => onSnooze(entry.alert.id)}
+                      className="flex-1 py-1 rounded text-[11px] font-medium flex items-center justify-center bg-white border border-slate-200 text-slate-700 hover:bg-slate-100"
+                    >
+                      <BellOff size={12} className="mr-1"/> {SNOOZE_MINUTES} মিনিট স্নুজ
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertHistory;
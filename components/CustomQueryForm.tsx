@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { FdsnQuery, FdsnArea, LocationState } from '../types';
+import { Search, Crosshair } from 'lucide-react';
+
+interface CustomQueryFormProps {
+  initialQuery: FdsnQuery | null;
+  userLocation: LocationState | null;
+  onSubmit: (query: FdsnQuery) => void;
+}
+
+type AreaMode = 'none' | 'bbox' | 'radius';
+
+const DHAKA: LocationState = { lat: 23.8103, lng: 90.4125 };
+
+const toDateInput = (iso: string | undefined, fallback: Date): string => {
+  return (iso ? iso : fallback.toISOString()).slice(0, 10);
+};
+
+const parseOptional = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+const CustomQueryForm: React.FC<CustomQueryFormProps> = ({ initialQuery, userLocation, onSubmit }) => {
+  const oneYearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+  const initialArea = initialQuery?.area;
+
+  const [startDate, setStartDate] = useState(toDateInput(initialQuery?.startTime, oneYearAgo));
+  const [endDate, setEndDate] = useState(toDateInput(initialQuery?.endTime, new Date()));
+  const [minMag, setMinMag] = useState(initialQuery?.minMagnitude?.toString() ?? '4');
+  const [maxMag, setMaxMag] = useState(initialQuery?.maxMagnitude?.toString() ?? '');
+  const [minDepth, setMinDepth] = useState(initialQuery?.minDepth?.toString() ?? '');
+  const [maxDepth, setMaxDepth] = useState(initialQuery?.maxDepth?.toString() ?? '');
+  const [areaMode, setAreaMode] = useState<AreaMode>(initialArea ? initialArea.kind : 'radius');
+
+  // Radius search defaults to the user's position, else Dhaka
+  const center = userLocation || DHAKA;
+  const [lat, setLat] = useState(initialArea?.kind === 'radius' ? initialArea.lat.toString() : center.lat.toFixed(4));
+  const [lng, setLng] = useState(initialArea?.kind === 'radius' ? initialArea.lng.toString() : center.lng.toFixed(4));
+  const [radiusKm, setRadiusKm] = useState(initialArea?.kind === 'radius' ? initialArea.radiusKm.toString() : '500');
+
+  // Bounding box defaults to Bangladesh and its neighbourhood
+  const [minLat, setMinLat] = useState(initialArea?.kind === 'bbox' ? initialArea.minLat.toString() : '20');
+  const [maxLat, setMaxLat] = useState(initialArea?.kind === 'bbox' ? initialArea.maxLat.toString() : '27');
+  const [minLng, setMinLng] = useState(initialArea?.kind === 'bbox' ? initialArea.minLng.toString() : '87');
+  const [maxLng, setMaxLng] = useState(initialArea?.kind === 'bbox' ? initialArea.maxLng.toString() : '93');
+
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    if (!startDate) {
+      setError('শুরুর তারিখ দিন।');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError('শেষের তারিখ শুরুর তারিখের আগে হতে পারে না।');
+      return;
+    }
+
+    let area: FdsnArea | undefined;
+    if (areaMode === 'radius') {
+      const la = parseOptional(lat), lo = parseOptional(lng), r = parseOptional(radiusKm);
+      if (la === undefined || lo === undefined || r === undefined || r <= 0) {
+        setError('কেন্দ্র ও ব্যাসার্ধ সঠিকভাবে দিন।');
+        return;
+      }
+      area = { kind: 'radius', lat: la, lng: lo, radiusKm: r };
+    } else if (areaMode === 'bbox') {
+      const a = parseOptional(minLat), b = parseOptional(maxLat), c = parseOptional(minLng), d = parseOptional(maxLng);
+      if (a === undefined || b === undefined || c === undefined || d === undefined || a >= b || c >= d) {
+        setError('বাউন্ডিং বক্সের সীমা সঠিকভাবে দিন।');
+        return;
+      }
+      area = { kind: 'bbox', minLat: a, maxLat: b, minLng: c, maxLng: d };
+    }
+
+    setError(null);
+    onSubmit({
+      startTime: `${startDate}T00:00:00`,
+      endTime: endDate ? `${endDate}T23:59:59` : undefined,
+      minMagnitude: parseOptional(minMag),
+      maxMagnitude: parseOptional(maxMag),
+      minDepth: parseOptional(minDepth),
+      maxDepth: parseOptional(maxDepth),
+      area,
+    });
+  };
+
+  const inputClass = "w-full p-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none";
+  const labelClass = "text-[10px] font-semibold text-slate-500 uppercase";
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-3 mt-3 animate-in slide-in-from-top-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>শুরু</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>শেষ</label>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>ন্যূনতম মাত্রা</label>
+          <input type="number" step="0.1" value={minMag} onChange={(e) => setMinMag(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>সর্বোচ্চ মাত্রা</label>
+          <input type="number" step="0.1" value={maxMag} onChange={(e) => setMaxMag(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>ন্যূনতম গভীরতা (কিমি)</label>
+          <input type="number" value={minDepth} onChange={(e) => setMinDepth(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>সর্বোচ্চ গভীরতা (কিমি)</label>
+          <input type="number" value={maxDepth} onChange={(e) => setMaxDepth(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className={`${labelClass} block mb-1`}>এলাকা</label>
+        <div className="flex bg-white p-1 rounded-lg border border-slate-200">
+          {(['none', 'radius', 'bbox'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setAreaMode(mode)}
+              className={`flex-1 py-1 text-xs font-semibold rounded-md transition-all ${
+                areaMode === mode ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {mode === 'none' && 'সারা বিশ্ব'}
+              {mode === 'radius' && 'ব্যাসার্ধ'}
+              {mode === 'bbox' && 'বক্স'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {areaMode === 'radius' && (
+        <div className="grid grid-cols-3 gap-2 items-end">
+          <div>
+            <label className={labelClass}>অক্ষাংশ</label>
+            <input type="number" step="0.0001" value={lat} onChange={(e) => setLat(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>দ্রাঘিমাংশ</label>
+            <input type="number" step="0.0001" value={lng} onChange={(e) => setLng(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>ব্যাসার্ধ (কিমি)</label>
+            <input type="number" value={radiusKm} onChange={(e) => setRadiusKm(e.target.value)} className={inputClass} />
+          </div>
+          {userLocation && (
+            <button
+              onClick={() => { setLat(userLocation.lat.toFixed(4)); setLng(userLocation.lng.toFixed(4)); }}
+              className="col-span-3 text-xs text-blue-600 font-medium flex items-center justify-center py-1 hover:underline"
+            >
+              <Crosshair size={12} className="mr-1" /> আমার অবস্থান ব্যবহার করুন
+            </button>
+          )}
+        </div>
+      )}
+
+      {areaMode === 'bbox' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>ন্যূনতম অক্ষাংশ</label>
+            <input type="number" value={minLat} onChange={(e) => setMinLat(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>সর্বোচ্চ অক্ষাংশ</label>
+            <input type="number" value={maxLat} onChange={(e) => setMaxLat(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>ন্যূনতম দ্রাঘিমাংশ</label>
+            <input type="number" value={minLng} onChange={(e) => setMinLng(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>সর্বোচ্চ দ্রাঘিমাংশ</label>
+            <input type="number" value={maxLng} onChange={(e) => setMaxLng(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <button
+        onClick={handleSubmit}
+        className="w-full py-2 bg-blue-600 text-white rounded-lg text-xs font-bold flex items-center justify-center hover:bg-blue-700 transition-colors"
+      >
+        <Search size={14} className="mr-1.5" /> অনুসন্ধান করুন
+      </button>
+    </div>
+  );
+};
+
+export default CustomQueryForm;
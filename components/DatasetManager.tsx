@@ -0,0 +1,197 @@
+import React, { useState, useRef } from 'react';
+import { ImportedDataset, CatalogFormat } from '../types';
+import { detectCatalogFormat, parseCatalog, CatalogParseResult } from '../utils/catalogImport';
+import { Database, Upload, X, Eye, EyeOff, Trash2, AlertTriangle, Radio } from 'lucide-react';
+
+interface DatasetManagerProps {
+  datasets: ImportedDataset[];
+  showLiveData: boolean;
+  onToggleLiveData: () => void;
+  onAddDataset: (dataset: ImportedDataset) => void;
+  onToggleDatasetVisibility: (id: string) => void;
+  onDeleteDataset: (id: string) => void;
+  onClose: () => void;
+}
+
+interface PendingImport {
+  id: string;
+  format: CatalogFormat;
+  result: CatalogParseResult;
+}
+
+const FORMAT_LABELS: Record<CatalogFormat, string> = {
+  quakeml: 'QuakeML',
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+};
+
+const DatasetManager: React.FC<DatasetManagerProps> = ({
+  datasets,
+  showLiveData,
+  onToggleLiveData,
+  onAddDataset,
+  onToggleDatasetVisibility,
+  onDeleteDataset,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [datasetName, setDatasetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const text = await file.text();
+      const format = detectCatalogFormat(file.name, text);
+      if (!format) {
+        setError('ফাইলের ধরন চেনা যায়নি। QuakeML, CSV বা GeoJSON ফাইল দিন।');
+        return;
+      }
+      const id = `ds${Date.now()}`;
+      setPending({ id, format, result: parseCatalog(format, text, id) });
+      setDatasetName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      console.error("Catalog import failed:", err);
+      setError('ফাইলটি পড়া যায়নি।');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const confirmImport = () => {
+    if (!pending || pending.result.features.length === 0) return;
+    onAddDataset({
+      id: pending.id,
+      name: datasetName.trim() || 'ইমপোর্ট করা ক্যাটালগ',
+      format: pending.format,
+      importedAt: Date.now(),
+      isVisible: true,
+      features: pending.result.features,
+    });
+    setPending(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center">
+            <Database size={18} className="mr-2 text-slate-500"/> ডেটাসেট (Datasets)
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <input
+            type="file"
+            accept=".xml,.quakeml,.qml,.csv,.txt,.json,.geojson"
+            ref={fileInputRef}
+            onChange={handleFile}
+            className="hidden"
+          />
+
+          {/* Live feed toggle */}
+          <div className="flex items-center justify-between bg-slate-50 p-3 rounded-xl border border-slate-100">
+            <div className="flex items-center">
+              <Radio size={16} className="mr-2 text-rose-600"/>
+              <div>
+                <div className="text-sm font-medium text-slate-800">লাইভ ডেটা</div>
+                <div className="text-xs text-slate-500">বন্ধ করলে শুধু ইমপোর্ট করা ডেটা দেখাবে</div>
+              </div>
+            </div>
+            <button
+              onClick={onToggleLiveData}
+              className={`w-10 h-6 rounded-full transition-colors relative ${showLiveData ? 'bg-green-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${showLiveData ? 'translate-x-4' : ''}`}></div>
+            </button>
+          </div>
+
+          {/* Import */}
+          {!pending && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-2.5 rounded-lg font-medium text-sm flex items-center justify-center bg-slate-900 text-white shadow-md hover:bg-slate-800 transition-all"
+            >
+              <Upload size={16} className="mr-2"/> ক্যাটালগ ইমপোর্ট করুন
+            </button>
+          )}
+
+          {error && <p className="text-xs text-rose-600 text-center">{error}</p>}
+
+          {pending && (
+            <div className="bg-blue-50 p-4 rounded-xl border border-blue-100 space-y-3 animate-in slide-in-from-top-2">
+              <div className="text-xs text-blue-800">
+                <span className="font-bold">{FORMAT_LABELS[pending.format]}</span>: {pending.result.features.length} টি ইভেন্ট গ্রহণযোগ্য
+                {pending.result.rejected > 0 && <span className="text-rose-600">, {pending.result.rejected} টি বাতিল</span>}
+              </div>
+              {pending.result.errors.length > 0 && (
+                <ul className="text-[10px] text-rose-600 space-y-0.5">
+                  {pending.result.errors.map((e, i) => (
+                    <li key={i} className="flex items-start"><AlertTriangle size={10} className="mr-1 mt-0.5 flex-shrink-0"/>{e}</li>
+                  ))}
+                </ul>
+              )}
+              <div>
+                <label className="text-xs font-semibold text-slate-500 uppercase">নাম</label>
+                <input
+                  type="text"
+                  value={datasetName}
+                  onChange={(e) => setDatasetName(e.target.value)}
+                  className="w-full mt-1 p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                />
+              </div>
+              <div className="flex gap-3">
+                <button onClick={() => setPending(null)} className="flex-1 py-2 bg-white text-slate-600 font-medium rounded-lg text-sm border border-slate-200">বাতিল</button>
+                <button
+                  onClick={confirmImport}
+                  disabled={pending.result.features.length === 0}
+                  className="flex-1 py-2 bg-blue-600 text-white font-medium rounded-lg text-sm shadow-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  সেভ করুন
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Dataset list */}
+          <div className="space-y-2">
+            {datasets.length === 0 && <p className="text-center text-xs text-slate-400 py-2">কোনো ডেটাসেট ইমপোর্ট করা হয়নি</p>}
+            {datasets.map(dataset => (
+              <div key={dataset.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-lg border border-slate-100">
+                <div className="flex-1 min-w-0 mr-2">
+                  <div className="font-semibold text-sm truncate text-slate-700">{dataset.name}</div>
+                  <div className="text-xs text-slate-500">{FORMAT_LABELS[dataset.format]} · {dataset.features.length} টি ইভেন্ট</div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onToggleDatasetVisibility(dataset.id)}
+                    className={`p-1.5 rounded transition-colors ${dataset.isVisible ? 'text-blue-500 hover:bg-blue-50' : 'text-slate-400 hover:bg-slate-100'}`}
+                    title={dataset.isVisible ? "লুকান" : "দৃশ্যমান করুন"}
+                  >
+                    {dataset.isVisible ? <Eye size={16} /> : <EyeOff size={16} />}
+                  </button>
+                  <button
+                    onClick={() => onDeleteDataset(dataset.id)}
+                    className="p-1.5 text-rose-500 hover:bg-rose-50 rounded transition-colors"
+                    title="ডিলিট"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetManager;
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Polygon, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { DensityWeight, EarthquakeFeature } from '../types';
+import { binHexagons, getDensityColor, getDensityRgb, getHexCorners, getQuakeWeight, normalizeWeight, DENSITY_GRADIENT } from '../utils/density';
+
+interface DensityLayerProps {
+  earthquakes: EarthquakeFeature[];
+  weight: DensityWeight;
+}
+
+const HEAT_RADIUS_PX = 25;
+const HEX_RADIUS_PX = 28;
+// Alpha of a single full-weight event, so a few overlapping ones are needed to run hot
+const HEAT_MAX_ALPHA = 0.4;
+
+// Blurred circle stamped once per event; alpha carries the weight
+const createBrush = (radius: number): HTMLCanvasElement => {
+  const brush = document.createElement('canvas');
+  brush.width = brush.height = radius * 2;
+  const ctx = brush.getContext('2d')!;
+  const gradient = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+  gradient.addColorStop(0, 'rgba(0,0,0,1)');
+  gradient.addColorStop(1, 'rgba(0,0,0,0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+  return brush;
+};
+
+const PALETTE = Array.from({ length: 256 }, (_, i) => getDensityRgb(i / 255));
+
+/**
+ * Canvas heatmap in the overlay pane, redrawn after every pan or zoom.
+ * Events are accumulated as alpha, then alpha is colored with the density
+ * palette so overlapping events run hot.
+ */
+export const HeatmapLayer: React.FC<DensityLayerProps> = ({ earthquakes, weight }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+    const brush = createBrush(HEAT_RADIUS_PX);
+
+    const weights = earthquakes.map(q => getQuakeWeight(q, weight));
+    const maxWeight = Math.max(0, ...weights);
+
+    const draw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx || size.x === 0 || size.y === 0) return;
+      earthquakes.forEach((quake, i) => {
+        const point = map.latLngToContainerPoint([quake.geometry.coordinates[1], quake.geometry.coordinates[0]]);
+        if (point.x < -HEAT_RADIUS_PX || point.y < -HEAT_RADIUS_PX || point.x > size.x + HEAT_RADIUS_PX || point.y > size.y + HEAT_RADIUS_PX) return;
+        ctx.globalAlpha = Math.max(0.03, HEAT_MAX_ALPHA * normalizeWeight(weights[i], maxWeight, weight));
+        ctx.drawImage(brush, point.x - HEAT_RADIUS_PX, point.y - HEAT_RADIUS_PX);
+      });
+
+      const image = ctx.getImageData(0, 0, size.x, size.y);
+      const pixels = image.data;
+      for (let i = 3; i < pixels.length; i += 4) {
+        const alpha = pixels[i];
+        if (alpha === 0) continue;
+        const [r, g, b] = PALETTE[alpha];
+        pixels[i - 3] = r;
+        pixels[i - 2] = g;
+        pixels[i - 1] = b;
+        // Keep faint areas see-through so the basemap still reads
+        pixels[i] = Math.min(220, alpha * 1.5);
+      }
+      ctx.putImageData(image, 0, 0);
+    };
+
+    draw();
+    map.on('moveend zoomend resize', draw);
+    return () => {
+      map.off('moveend zoomend resize', draw);
+      canvas.remove();
+    };
+  }, [map, earthquakes, weight]);
+
+  return null;
+};
+
+/**
+ * Hexagons of a fixed on-screen size, binned in layer pixels so they only
+ * need recomputing when the zoom changes.
+ */
+export const HexbinLayer: React.FC<DensityLayerProps> = ({ earthquakes, weight }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+
+  useEffect(() => {
+    const onZoom = () => setZoom(map.getZoom());
+    map.on('zoomend', onZoom);
+    return () => { map.off('zoomend', onZoom); };
+  }, [map]);
+
+  const hexes = useMemo(() => {
+    const points = earthquakes.map(quake => {
+      const point = map.project([quake.geometry.coordinates[1], quake.geometry.coordinates[0]], zoom);
+      return { x: point.x, y: point.y, weight: getQuakeWeight(quake, weight) };
+    });
+    const bins = binHexagons(points, HEX_RADIUS_PX);
+    const maxWeight = Math.max(0, ...bins.map(b => b.weight));
+    return bins.map(bin => ({
+      ...bin,
+      intensity: normalizeWeight(bin.weight, maxWeight, weight),
+      positions: getHexCorners(bin.x, bin.y, HEX_RADIUS_PX).map(([x, y]) => map.unproject([x, y], zoom)),
+    }));
+  }, [map, earthquakes, weight, zoom]);
+
+  return (
+    <>
+      {hexes.map(hex => (
+        <Polygon
+          key={`${zoom}-${hex.x}-${hex.y}`}
+          positions={hex.positions}
+          pathOptions={{ color: '#ffffff', weight: 1, fillColor: getDensityColor(hex.intensity), fillOpacity: 0.65 }}
+        >
+          <Tooltip direction="top">
+            <div className="text-xs font-semibold text-slate-700">{hex.count} টি ভূমিকম্প</div>
+          </Tooltip>
+        </Polygon>
+      ))}
+    </>
+  );
+};
+
+const WEIGHT_LABELS: Record<DensityWeight, string> = {
+  count: 'সংখ্যা',
+  magnitude: 'মাত্রা',
+  energy: 'শক্তি',
+};
+
+export const DensityLegend: React.FC<{ weight: DensityWeight; onWeightChange: (weight: DensityWeight) => void }> = ({ weight, onWeightChange }) => (
+  <div className="bg-white/95 rounded-xl shadow-lg p-3 w-48 border border-slate-100">
+    <div className="text-[11px] font-bold text-slate-600 mb-1.5">ভূমিকম্পের ঘনত্ব</div>
+    <div
+      className="h-2 rounded-full"
+      style={{ background: `linear-gradient(to right, ${DENSITY_GRADIENT.map(([stop, color]) => `${color} ${stop * 100}%`).join(', ')})` }}
+    />
+    <div className="flex justify-between text-[10px] text-slate-500 mt-0.5">
+      <span>কম</span>
+      <span>বেশি</span>
+    </div>
+    <div className="flex bg-slate-100 p-0.5 rounded-lg mt-2">
+      {(['count', 'magnitude', 'energy'] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => onWeightChange(option)}
+          className={`flex-1 py-0.5 text-[10px] font-semibold rounded-md transition-all ${
+            weight === option ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500'
+          }`}
+        >
+          {WEIGHT_LABELS[option]}
+        </button>
+      ))}
+    </div>
+    {weight === 'energy' && <div className="text-[9px] text-slate-400 mt-1">লগ স্কেল: প্রতি মাত্রায় ~৩২ গুণ</div>}
+  </div>
+);
@@ -0,0 +1,112 @@
+import React from 'react';
+import { DrillAftershock, DrillScenario } from '../types';
+import { Crosshair, Plus, Trash2 } from 'lucide-react';
+
+interface DrillEditorProps {
+  value: DrillScenario;
+  onChange: (scenario: DrillScenario) => void;
+  // Places the epicenter can be snapped to, e.g. the user's location or a zone
+  anchors: { name: string; lat: number; lng: number }[];
+}
+
+const inputClass = "w-full p-1 border border-slate-300 rounded text-xs bg-white";
+
+const DrillEditor: React.FC<DrillEditorProps> = ({ value, onChange, anchors }) => {
+  const numberField = (label: string, field: 'lat' | 'lng' | 'depthKm' | 'mag' | 'startDelaySec', step: string) => (
+    <label className="text-[11px] text-slate-600 space-y-0.5">
+      <span>{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={value[field]}
+        onChange={(e) => {
+          const num = parseFloat(e.target.value);
+          if (!isNaN(num)) onChange({ ...value, [field]: num });
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const updateAftershock = (index: number, aftershock: DrillAftershock) => {
+    onChange({ ...value, aftershocks: value.aftershocks.map((a, i) => i === index ? aftershock : a) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[11px] text-slate-600 block space-y-0.5">
+        <span>দৃশ্যপটের নাম</span>
+        <input
+          type="text"
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        {numberField('অক্ষাংশ', 'lat', '0.01')}
+        {numberField('দ্রাঘিমাংশ', 'lng', '0.01')}
+        {numberField('মাত্রা', 'mag', '0.1')}
+        {numberField('গভীরতা (কিমি)', 'depthKm', '1')}
+        {numberField('শুরুর আগে (সে.)', 'startDelaySec', '1')}
+      </div>
+
+      {anchors.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {anchors.map(anchor => (
+            <button
+              key={anchor.name}
+              onClick={() => onChange({ ...value, lat: anchor.lat, lng: anchor.lng })}
+              className="px-2 py-1 rounded-full bg-slate-100 text-slate-600 text-[10px] font-medium flex items-center hover:bg-slate-200"
+            >
+              <Crosshair size={10} className="mr-1"/> {anchor.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-slate-600">আফটারশক</span>
+          <button
+            onClick={() => onChange({ ...value, aftershocks: [...value.aftershocks, { offsetSec: 60, mag: Math.max(1, value.mag - 1.5), distanceKm: 10 }] })}
+            className="text-[11px] text-blue-600 font-medium flex items-center"
+          >
+            <Plus size={12} className="mr-0.5"/> যোগ করুন
+          </button>
+        </div>
+        {value.aftershocks.length > 0 && (
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 text-[10px] text-slate-400">
+            <span>পরে (সে.)</span><span>মাত্রা</span><span>দূরত্ব (কিমি)</span><span></span>
+          </div>
+        )}
+        {value.aftershocks.map((aftershock, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 items-center">
+            {(['offsetSec', 'mag', 'distanceKm'] as const).map(field => (
+              <input
+                key={field}
+                type="number"
+                step={field === 'mag' ? '0.1' : '1'}
+                value={aftershock[field]}
+                onChange={(e) => {
+                  const num = parseFloat(e.target.value);
+                  if (!isNaN(num)) updateAftershock(index, { ...aftershock, [field]: num });
+                }}
+                className={inputClass}
+              />
+            ))}
+            <button
+              onClick={() => onChange({ ...value, aftershocks: value.aftershocks.filter((_, i) => i !== index) })}
+              className="p-1 text-rose-500 hover:bg-rose-50 rounded"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DrillEditor;
@@ -1,8 +1,14 @@
-import React, { useState, useMemo } from 'react';
-import { EarthquakeFeature, TimePeriod, LocationState } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { EarthquakeFeature, TimePeriod, LocationState, FdsnQuery, RevisionHistory, RevisionField, ArchiveQuery, AftershockSequence } from '../types';
 import { formatTime, getRegionName } from '../services/earthquakeService';
+import { PROVIDERS } from '../services/feedProviders';
 import { calculateDistance } from '../utils/geoUtils';
-import { AlertTriangle, Clock, MapPin, Activity, Filter, RefreshCcw, CalendarClock, Globe, X, Waves, ExternalLink, Navigation, Info, Share2, Check, Layers, ArrowUpDown, TrendingUp, Search, MessageSquarePlus, Users } from 'lucide-react';
+import { exportEarthquakes, ExportFormat, CsvHeaderLanguage } from '../utils/exportUtils';
+import { getSequenceRoles, isSequenceActive } from '../utils/aftershocks';
+import CustomQueryForm from './CustomQueryForm';
+import EventDetailPanel from './EventDetailPanel';
+import AftershockPanel from './AftershockPanel';
+import { AlertTriangle, Clock, MapPin, Activity, Filter, RefreshCcw, CalendarClock, Globe, X, Waves, ExternalLink, Navigation, Info, Share2, Check, Layers, ArrowUpDown, TrendingUp, Search, MessageSquarePlus, Users, Radio, Download, Database, History, GitBranch, FlaskConical } from 'lucide-react';
 import { MapContainer, TileLayer, Marker } from 'react-leaflet';
 import L from 'leaflet';
 
@@ -21,18 +27,54 @@ interface EarthquakeListProps {
   period: TimePeriod;
   onPeriodChange: (period: TimePeriod) => void;
   userLocation: LocationState | null;
+  customQuery: FdsnQuery | null;
+  onCustomQuery: (query: FdsnQuery) => void;
+  archiveQuery: ArchiveQuery | null;
+  onArchiveQuery: (query: ArchiveQuery) => void;
+  hasMoreResults: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  revisions: RevisionHistory;
+  sequences: AftershockSequence[];
+  focusQuakeId?: string | null; // Opens this event's details once it is loaded
+  onFocusHandled?: () => void;
 }
 
 type SortOption = 'newest' | 'oldest' | 'mag_desc' | 'mag_asc';
 
-const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, period, onPeriodChange, userLocation }) => {
+// Archive windows offered in the data source selector; 0 means everything stored
+const ARCHIVE_RANGES = [90, 365, 0];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EarthquakeList: React.FC<EarthquakeListProps> = ({ 
+  earthquakes, 
+  loading, 
+  period, 
+  onPeriodChange, 
+  userLocation,
+  customQuery,
+  onCustomQuery,
+  archiveQuery,
+  onArchiveQuery,
+  hasMoreResults,
+  isLoadingMore,
+  onLoadMore,
+  revisions,
+  sequences,
+  focusQuakeId = null,
+  onFocusHandled
+}) => {
   const [showFilters, setShowFilters] = useState(false);
+  const [showCustomQuery, setShowCustomQuery] = useState(customQuery !== null);
+  const [archiveRange, setArchiveRange] = useState<number>(90);
   const [minMag, setMinMag] = useState<number>(0);
   const [timeRange, setTimeRange] = useState<'all' | '24h' | '12h' | '6h'>('all');
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [selectedQuake, setSelectedQuake] = useState<EarthquakeFeature | null>(null);
   const [copied, setCopied] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [csvLanguage, setCsvLanguage] = useState<CsvHeaderLanguage>('bn');
   
   // Sorting State
   const [sortOrder, setSortOrder] = useState<SortOption>('newest');
@@ -43,6 +85,18 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
     return Array.from(types).sort();
   }, [earthquakes]);
 
+  useEffect(() => {
+    if (!focusQuakeId) return;
+    const quake = earthquakes.find(q => q.id === focusQuakeId);
+    if (!quake) return;
+    setCopied(false);
+    setSelectedQuake(quake);
+    onFocusHandled?.();
+  }, [focusQuakeId, earthquakes]);
+
+  const sequenceRoles = useMemo(() => getSequenceRoles(sequences), [sequences]);
+  const activeSequences = useMemo(() => sequences.filter(s => isSequenceActive(s)), [sequences]);
+
   // Statistics
   const stats = useMemo(() => {
     if (earthquakes.length === 0) return null;
@@ -80,6 +134,16 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
     return map[type] || type;
   };
 
+  const getRevisionFieldLabel = (field: RevisionField) => {
+    const map: Record<RevisionField, string> = {
+      'mag': 'মাত্রা',
+      'location': 'অবস্থান',
+      'depth': 'গভীরতা',
+      'status': 'স্ট্যাটাস'
+    };
+    return map[field];
+  };
+
   const toggleType = (type: string) => {
     setSelectedTypes(prev => 
       prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
@@ -149,10 +213,31 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
 
   const handlePeriodChange = (newPeriod: TimePeriod) => {
     onPeriodChange(newPeriod);
+    setShowCustomQuery(false);
     setTimeRange('all'); 
     setSelectedTypes([]); 
   };
 
+  const handleCustomQuery = (query: FdsnQuery) => {
+    onCustomQuery(query);
+    setTimeRange('all');
+    setSelectedTypes([]);
+  };
+
+  const handleArchiveRange = (days: number) => {
+    setArchiveRange(days);
+    setShowCustomQuery(false);
+    onArchiveQuery({ startTime: days > 0 ? Date.now() - days * DAY_MS : 0 });
+    setTimeRange('all');
+    setSelectedTypes([]);
+  };
+
+  const periodLabel = archiveQuery
+    ? 'আর্কাইভে'
+    : customQuery 
+    ? 'অনুসন্ধানের ফলাফলে' 
+    : period === 'day' ? 'গত ২৪ ঘণ্টায়' : period === 'week' ? 'গত ৭ দিনে' : 'গত ৩০ দিনে';
+
   const handleShare = async () => {
     if (!selectedQuake) return;
 
@@ -186,6 +271,11 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    exportEarthquakes(processedQuakes, format, csvLanguage);
+    setShowExportMenu(false);
+  };
+
   const activeFilters = minMag > 0 || timeRange !== 'all' || selectedTypes.length > 0 || sortOrder !== 'newest' || searchQuery !== '';
 
   if (loading) {
@@ -217,7 +307,7 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                 <span className="text-sm font-normal text-slate-400 ml-1">টি</span>
               </div>
               <div className="text-[10px] text-slate-400 mt-2">
-                 {period === 'day' ? 'গত ২৪ ঘণ্টায়' : period === 'week' ? 'গত ৭ দিনে' : 'গত ৩০ দিনে'}
+                 {periodLabel}
               </div>
            </div>
            
@@ -234,6 +324,8 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
         </div>
       )}
 
+      <AftershockPanel sequences={activeSequences} />
+
       {/* Search Bar */}
       <div className="relative mb-4">
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -259,7 +351,7 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-bold text-slate-800 flex items-center">
           <Activity className="mr-2 text-rose-600" /> 
-          {period === 'day' ? 'সাম্প্রতিক তালিকা' : period === 'week' ? 'সাপ্তাহিক তালিকা' : 'মাসিক তালিকা'}
+          {archiveQuery ? 'আর্কাইভ তালিকা' : customQuery ? 'কাস্টম তালিকা' : period === 'day' ? 'সাম্প্রতিক তালিকা' : period === 'week' ? 'সাপ্তাহিক তালিকা' : 'মাসিক তালিকা'}
         </h2>
         <button
           onClick={() => setShowFilters(!showFilters)}
@@ -330,7 +422,7 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                     key={p}
                     onClick={() => handlePeriodChange(p)}
                     className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${
-                      period === p
+                      period === p && !showCustomQuery && !customQuery && !archiveQuery
                         ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black/5'
                         : 'text-slate-500 hover:text-slate-700'
                     }`}
@@ -340,7 +432,49 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                     {p === 'month' && '৩০ দিন'}
                   </button>
                 ))}
+                <button
+                  onClick={() => setShowCustomQuery(!showCustomQuery)}
+                  className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${
+                    (showCustomQuery || customQuery) && !archiveQuery
+                      ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black/5'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  কাস্টম
+                </button>
+                <button
+                  onClick={() => handleArchiveRange(archiveRange)}
+                  className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${
+                    archiveQuery
+                      ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black/5'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  আর্কাইভ
+                </button>
               </div>
+              {archiveQuery && !showCustomQuery && (
+                <div className="flex gap-2 mt-2 animate-in slide-in-from-top-2">
+                  {ARCHIVE_RANGES.map(days => (
+                    <button
+                      key={days}
+                      onClick={() => handleArchiveRange(days)}
+                      className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-medium border ${archiveRange === days ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-600'}`}
+                    >
+                      {days === 90 && '৯০ দিন'}
+                      {days === 365 && '১ বছর'}
+                      {days === 0 && 'সব'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {showCustomQuery && (
+                <CustomQueryForm 
+                  initialQuery={customQuery}
+                  userLocation={userLocation}
+                  onSubmit={handleCustomQuery}
+                />
+              )}
             </div>
 
             <div className="h-px bg-slate-100 w-full"></div>
@@ -445,6 +579,42 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
       {/* Results Count */}
       <div className="mb-4 text-sm text-slate-500 flex justify-between items-center">
         <span>দেখানো হচ্ছে: <span className="font-semibold text-slate-800">{processedQuakes.length}</span> টি ফলাফল</span>
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={processedQuakes.length === 0}
+            className="flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <Download size={14} className="mr-1.5" /> এক্সপোর্ট
+          </button>
+          {showExportMenu && (
+            <div className="absolute right-0 top-9 z-20 bg-white rounded-xl shadow-xl p-2 w-44 flex flex-col gap-1 border border-slate-100 animate-in slide-in-from-top-2">
+              {(['geojson', 'csv', 'kml', 'gpx'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="text-xs font-semibold px-3 py-2 rounded-lg text-left text-slate-600 hover:bg-slate-50 uppercase"
+                >
+                  {format}
+                </button>
+              ))}
+              <div className="border-t border-slate-100 pt-2 mt-1 px-1">
+                <div className="text-[10px] text-slate-400 mb-1">CSV হেডার</div>
+                <div className="flex bg-slate-100 p-0.5 rounded-lg">
+                  {(['bn', 'en'] as const).map(lang => (
+                    <button
+                      key={lang}
+                      onClick={() => setCsvLanguage(lang)}
+                      className={`flex-1 py-1 text-[10px] font-semibold rounded-md ${csvLanguage === lang ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {lang === 'bn' ? 'বাংলা' : 'English'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="space-y-3">
@@ -489,6 +659,42 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                          {typeLabel}
                        </span>
                     )}
+                    {sequenceRoles.has(quake.id) && (
+                       <span
+                         className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-indigo-50 text-indigo-700 border border-indigo-100 tracking-wide"
+                         title={`M${sequenceRoles.get(quake.id)!.sequence.mainshock.properties.mag.toFixed(1)} সিকোয়েন্স`}
+                       >
+                         <GitBranch size={10} className="mr-1" />
+                         {sequenceRoles.get(quake.id)!.role === 'mainshock' ? 'মূল কম্পন' : 'আফটারশক'}
+                       </span>
+                    )}
+                    {revisions[quake.id] && (
+                       <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-yellow-50 text-yellow-700 border border-yellow-200 tracking-wide">
+                         <History size={10} className="mr-1" />
+                         সংশোধিত
+                       </span>
+                    )}
+                    {quake.datasetId && (
+                       <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-violet-50 text-violet-700 border border-violet-100 tracking-wide">
+                         <Database size={10} className="mr-1" />
+                         ইমপোর্ট
+                       </span>
+                    )}
+                    {quake.isDrill && (
+                       <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-amber-50 text-amber-700 border border-amber-200 tracking-wide">
+                         <FlaskConical size={10} className="mr-1" />
+                         মহড়া
+                       </span>
+                    )}
+                    {quake.reports && quake.reports.length > 1 && (
+                       <span 
+                         className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-sky-50 text-sky-700 border border-sky-100 uppercase tracking-wide"
+                         title={quake.reports.map(r => PROVIDERS[r.provider].name).join(', ')}
+                       >
+                         <Radio size={10} className="mr-1" />
+                         {quake.reports.map(r => r.provider).join(' · ')}
+                       </span>
+                    )}
                   </div>
                   <h3 className="text-sm font-semibold text-slate-900 truncate" title={quake.properties.place}>
                     {getHighlightedText(quake.properties.place, searchQuery)}
@@ -522,6 +728,18 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
         )}
       </div>
 
+      {/* Pagination for custom queries */}
+      {customQuery && hasMoreResults && (
+        <button
+          onClick={onLoadMore}
+          disabled={isLoadingMore}
+          className="w-full mt-4 py-3 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors flex items-center justify-center"
+        >
+          {isLoadingMore && <RefreshCcw size={16} className="mr-2 animate-spin" />}
+          {isLoadingMore ? 'লোড হচ্ছে...' : 'আরও ফলাফল দেখুন'}
+        </button>
+      )}
+
       {/* Detail Modal */}
       {selectedQuake && (
         <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
@@ -542,6 +760,11 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                 <div className="text-sm font-medium bg-black/10 px-3 py-1 rounded-full uppercase tracking-wider mb-4">
                   Magnitude
                 </div>
+                {revisions[selectedQuake.id] && (
+                  <div className="text-[10px] font-bold bg-yellow-400 text-yellow-900 px-2 py-0.5 rounded -mt-2 mb-3 flex items-center">
+                    <History size={10} className="mr-1" /> সংশোধিত ({revisions[selectedQuake.id].length})
+                  </div>
+                )}
                 <div className="text-center font-bold text-lg leading-tight">
                   {getRegionName(selectedQuake.properties.place)}
                 </div>
@@ -620,6 +843,11 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                 </div>
               </div>
 
+              {/* USGS Products (ShakeMap, PAGER, DYFI, Moment Tensor) */}
+              {selectedQuake.properties.detail && (
+                <EventDetailPanel quake={selectedQuake} />
+              )}
+
               {/* Coordinates */}
               <div>
                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center">
@@ -659,16 +887,65 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                 </div>
               </div>
 
+              {/* Revision History */}
+              {revisions[selectedQuake.id] && (
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center">
+                    <History size={12} className="mr-1"/> সংশোধনের ইতিহাস (Revisions)
+                  </h4>
+                  <div className="space-y-2">
+                    {[...revisions[selectedQuake.id]].reverse().map(revision => (
+                      <div key={revision.detectedAt} className="bg-yellow-50 p-2 rounded-lg border border-yellow-100">
+                        <div className="text-[10px] text-yellow-700 font-semibold mb-1">{formatTime(revision.updated)}</div>
+                        {revision.changes.map(change => (
+                          <div key={change.field} className="flex justify-between text-xs text-slate-700">
+                            <span>{getRevisionFieldLabel(change.field)}</span>
+                            <span className="font-mono">{change.from} → <span className="font-bold">{change.to}</span></span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Reporting Agencies */}
+              {selectedQuake.reports && selectedQuake.reports.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center">
+                    <Radio size={12} className="mr-1"/> রিপোর্টকারী সংস্থা (Sources)
+                  </h4>
+                  <div className="space-y-2">
+                    {selectedQuake.reports.map(report => (
+                      <a 
+                        key={`${report.provider}-${report.eventId}`}
+                        href={report.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex justify-between items-center bg-slate-50 p-2 rounded-lg border border-slate-100 hover:bg-slate-100 transition-colors"
+                      >
+                        <span className="text-sm font-medium text-slate-700">{PROVIDERS[report.provider].name}</span>
+                        <span className="text-sm font-bold text-slate-800">
+                          {report.mag.toFixed(1)} <span className="text-[10px] font-normal text-slate-400 uppercase">{report.magType}</span>
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+
                {/* Did You Feel It Button */}
-               <a 
-                 href={`${selectedQuake.properties.url}#dyfi`}
-                 target="_blank"
-                 rel="noopener noreferrer"
-                 className="block w-full text-center py-2 bg-teal-50 text-teal-700 font-semibold rounded-lg border border-teal-100 mb-2 hover:bg-teal-100 transition-colors flex items-center justify-center"
-               >
-                 <MessageSquarePlus size={18} className="mr-2"/>
-                 আপনি কি কম্পন অনুভব করেছেন?
-               </a>
+               {selectedQuake.properties.url && (
+                 <a 
+                   href={`${selectedQuake.properties.url}#dyfi`}
+                   target="_blank"
+                   rel="noopener noreferrer"
+                   className="block w-full text-center py-2 bg-teal-50 text-teal-700 font-semibold rounded-lg border border-teal-100 mb-2 hover:bg-teal-100 transition-colors flex items-center justify-center"
+                 >
+                   <MessageSquarePlus size={18} className="mr-2"/>
+                   আপনি কি কম্পন অনুভব করেছেন?
+                 </a>
+               )}
 
               {/* Footer Actions */}
               <div className="pt-2 flex gap-3">
@@ -680,15 +957,17 @@ const EarthquakeList: React.FC<EarthquakeListProps> = ({ earthquakes, loading, p
                   {copied ? 'কপি হয়েছে' : 'শেয়ার'}
                 </button>
 
-                <a 
-                  href={selectedQuake.properties.url} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="flex-[2] flex items-center justify-center py-3 bg-slate-900 text-white rounded-xl font-medium hover:bg-slate-800 transition-colors"
-                >
-                  <ExternalLink size={18} className="mr-2" />
-                  USGS ওয়েব
-                </a>
+                {selectedQuake.properties.url && (
+                  <a 
+                    href={selectedQuake.properties.url} 
+                    target="_blank" 
+                    rel="noopener noreferrer"
+                    className="flex-[2] flex items-center justify-center py-3 bg-slate-900 text-white rounded-xl font-medium hover:bg-slate-800 transition-colors"
+                  >
+                    <ExternalLink size={18} className="mr-2" />
+                    USGS ওয়েব
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,93 @@
+import React from 'react';
+import { AlertSeverity, EscalationPolicy, EscalationSettings } from '../types';
+import { SEVERITY_ORDER } from '../utils/escalation';
+import { Check, Siren } from 'lucide-react';
+
+interface EscalationEditorProps {
+  value: EscalationSettings;
+  onChange: (settings: EscalationSettings) => void;
+}
+
+const SEVERITY_LABELS: Record<AlertSeverity, { label: string; hint: string }> = {
+  moderate: { label: 'মাঝারি', hint: 'M5-এর নিচে বা ঝাঁক' },
+  high: { label: 'উচ্চ', hint: 'M5+ বা তীব্রতা V+' },
+  critical: { label: 'অতি জরুরি', hint: 'M6.5+ বা তীব্রতা VII+' },
+};
+
+const SIREN_INTERVALS = [5, 10, 30, 60];
+const VOICE_INTERVALS = [0, 15, 30, 60];
+
+const selectClass = "p-1 border border-slate-300 rounded text-xs bg-white";
+
+const EscalationEditor: React.FC<EscalationEditorProps> = ({ value, onChange }) => {
+  const updatePolicy = (severity: AlertSeverity, policy: EscalationPolicy) => {
+    onChange({ ...value, [severity]: policy });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="font-medium text-slate-800 text-sm flex items-center">
+          <Siren size={14} className="mr-1.5 text-rose-500"/> বারবার অ্যালার্ম
+        </div>
+        <div className="text-xs text-slate-500">স্বীকার না করা পর্যন্ত সাইরেন ক্রমশ জোরে বাজবে</div>
+      </div>
+
+      {[...SEVERITY_ORDER].reverse().map(severity => {
+        const policy = value[severity];
+        return (
+          <div key={severity} className="bg-white p-2.5 rounded-lg border border-slate-200 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-xs font-semibold text-slate-800">{SEVERITY_LABELS[severity].label}</span>
+                <span className="text-[10px] text-slate-400 ml-1.5">{SEVERITY_LABELS[severity].hint}</span>
+              </div>
+              <button
+                onClick={() => updatePolicy(severity, { ...policy, enabled: !policy.enabled })}
+                className={`w-10 h-6 rounded-full transition-colors relative ${policy.enabled ? 'bg-green-500' : 'bg-slate-300'}`}
+              >
+                <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${policy.enabled ? 'translate-x-4' : ''}`}></div>
+              </button>
+            </div>
+
+            {policy.enabled && (
+              <div className="grid grid-cols-2 gap-2 text-[11px] text-slate-600">
+                <label className="flex items-center justify-between">
+                  সাইরেন
+                  <select
+                    value={policy.sirenRepeatSec}
+                    onChange={(e) => updatePolicy(severity, { ...policy, sirenRepeatSec: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {SIREN_INTERVALS.map(sec => <option key={sec} value={sec}>প্রতি {sec} সে.</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between">
+                  ভয়েস
+                  <select
+                    value={policy.voiceRepeatSec}
+                    onChange={(e) => updatePolicy(severity, { ...policy, voiceRepeatSec: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {VOICE_INTERVALS.map(sec => <option key={sec} value={sec}>{sec === 0 ? 'একবার' : `প্রতি ${sec} সে.`}</option>)}
+                  </select>
+                </label>
+                <label className="col-span-2 flex items-center justify-between cursor-pointer">
+                  স্ক্রিন ফ্ল্যাশ
+                  <div
+                    className={`w-4 h-4 rounded border flex items-center justify-center ${policy.flash ? 'bg-blue-600 border-blue-600' : 'border-slate-300'}`}
+                    onClick={() => updatePolicy(severity, { ...policy, flash: !policy.flash })}
+                  >
+                    {policy.flash && <Check size={10} className="text-white" />}
+                  </div>
+                </label>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EscalationEditor;
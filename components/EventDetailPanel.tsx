@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { EarthquakeFeature, EventDetail, PagerAlertLevel, ProductFile } from '../types';
+import { fetchEventDetail, getCachedEventDetail } from '../services/eventDetailService';
+import { formatMmi } from '../utils/groundMotion';
+import { Activity, FileText, RefreshCw, Users, Target, ShieldAlert } from 'lucide-react';
+
+interface EventDetailPanelProps {
+  quake: EarthquakeFeature;
+}
+
+const PAGER_STYLES: Record<PagerAlertLevel, { className: string; label: string }> = {
+  green: { className: 'bg-green-500 text-white', label: 'সবুজ' },
+  yellow: { className: 'bg-yellow-400 text-yellow-900', label: 'হলুদ' },
+  orange: { className: 'bg-orange-500 text-white', label: 'কমলা' },
+  red: { className: 'bg-red-600 text-white', label: 'লাল' },
+};
+
+const FileLinks: React.FC<{ files: ProductFile[] }> = ({ files }) => {
+  if (files.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-2">
+      {files.map(file => (
+        <a
+          key={file.url}
+          href={file.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center px-2 py-1 rounded text-[10px] font-medium bg-white text-slate-600 border border-slate-200 hover:bg-slate-100"
+        >
+          <FileText size={10} className="mr-1" /> {file.name}
+        </a>
+      ))}
+    </div>
+  );
+};
+
+const EventDetailPanel: React.FC<EventDetailPanelProps> = ({ quake }) => {
+  const [detail, setDetail] = useState<EventDetail | null>(() => getCachedEventDetail(quake) || null);
+  const [loading, setLoading] = useState<boolean>(!detail);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    const cached = getCachedEventDetail(quake);
+    if (cached) {
+      setDetail(cached);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(false);
+    fetchEventDetail(quake)
+      .then(result => { if (isMounted) setDetail(result); })
+      .catch(() => { if (isMounted) setError(true); })
+      .finally(() => { if (isMounted) setLoading(false); });
+
+    return () => { isMounted = false; };
+  }, [quake.id, quake.properties.updated]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4 text-xs text-slate-400">
+        <RefreshCw size={14} className="animate-spin mr-2" /> বিস্তারিত তথ্য লোড হচ্ছে...
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return <p className="text-xs text-slate-400 text-center py-2">বিস্তারিত তথ্য পাওয়া যায়নি।</p>;
+  }
+
+  const hasProducts = detail.pager || detail.shakemap || detail.dyfi || detail.momentTensor;
+  if (!hasProducts && !detail.origin) return null;
+
+  return (
+    <div className="space-y-3">
+      {/* PAGER & Intensity */}
+      {(detail.pager || detail.shakemap) && (
+        <div className="grid grid-cols-2 gap-3">
+          {detail.pager && (
+            <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+              <div className="text-slate-400 text-xs mb-1 flex items-center"><ShieldAlert size={12} className="mr-1"/> PAGER সতর্কতা</div>
+              {detail.pager.alertLevel ? (
+                <span className={`inline-block text-sm font-bold px-2 py-0.5 rounded ${PAGER_STYLES[detail.pager.alertLevel].className}`}>
+                  {PAGER_STYLES[detail.pager.alertLevel].label}
+                </span>
+              ) : (
+                <span className="text-sm font-bold text-slate-500">-</span>
+              )}
+            </div>
+          )}
+          {detail.shakemap && (
+            <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+              <div className="text-slate-400 text-xs mb-1 flex items-center"><Activity size={12} className="mr-1"/> সর্বোচ্চ তীব্রতা (MMI)</div>
+              <div className="text-slate-800 font-bold">{formatMmi(detail.shakemap.maxMmi)}</div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {detail.shakemap && (
+        <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+          <div className="text-xs font-bold text-slate-600 mb-1">ShakeMap</div>
+          <div className="flex justify-between text-xs text-slate-600">
+            <span>PGA: <span className="font-bold">{detail.shakemap.maxPga ?? '-'} %g</span></span>
+            <span>PGV: <span className="font-bold">{detail.shakemap.maxPgv ?? '-'} cm/s</span></span>
+          </div>
+          <FileLinks files={detail.shakemap.files} />
+          {detail.pager && <FileLinks files={detail.pager.files} />}
+        </div>
+      )}
+
+      {/* Did You Feel It */}
+      {detail.dyfi && (
+        <div className="bg-indigo-50 p-3 rounded-xl border border-indigo-100">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-bold text-indigo-800 flex items-center"><Users size={12} className="mr-1"/> DYFI রিপোর্ট</span>
+            <span className="text-sm font-bold text-indigo-600">{detail.dyfi.responses ?? 0} জন · MMI {formatMmi(detail.dyfi.maxMmi)}</span>
+          </div>
+          <FileLinks files={detail.dyfi.files} />
+        </div>
+      )}
+
+      {/* Focal Mechanism */}
+      {detail.momentTensor && (
+        <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+          <div className="text-xs font-bold text-slate-600 mb-2 flex items-center">
+            <Target size={12} className="mr-1"/> ফোকাল মেকানিজম (Moment Tensor)
+            {detail.momentTensor.source && <span className="ml-auto text-[10px] font-normal text-slate-400 uppercase">{detail.momentTensor.source}</span>}
+          </div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-slate-600">
+            <span>মাত্রা: <span className="font-bold">{detail.momentTensor.magnitude ?? '-'} {detail.momentTensor.magnitudeType}</span></span>
+            <span>গভীরতা: <span className="font-bold">{detail.momentTensor.depth ?? '-'} km</span></span>
+            <span>M₀: <span className="font-bold">{detail.momentTensor.scalarMoment !== null ? detail.momentTensor.scalarMoment.toExponential(2) : '-'} N·m</span></span>
+            <span>ডাবল কাপল: <span className="font-bold">{detail.momentTensor.percentDoubleCouple !== null ? `${Math.round(detail.momentTensor.percentDoubleCouple * 100)}%` : '-'}</span></span>
+          </div>
+          {detail.momentTensor.nodalPlanes.length > 0 && (
+            <div className="mt-2 font-mono text-[11px] text-slate-600 bg-white rounded-lg border border-slate-100 p-2">
+              <div className="grid grid-cols-4 text-slate-400 text-[10px]">
+                <span></span><span>Strike</span><span>Dip</span><span>Rake</span>
+              </div>
+              {detail.momentTensor.nodalPlanes.map((plane, i) => (
+                <div key={i} className="grid grid-cols-4">
+                  <span className="text-slate-400">NP{i + 1}</span>
+                  <span>{plane.strike}°</span>
+                  <span>{plane.dip}°</span>
+                  <span>{plane.rake}°</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <FileLinks files={detail.momentTensor.files} />
+        </div>
+      )}
+
+      {/* Origin quality */}
+      {detail.origin && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-500 px-1">
+          {detail.origin.reviewStatus && <span>রিভিউ: <span className="font-semibold capitalize">{detail.origin.reviewStatus}</span></span>}
+          {detail.origin.stationsUsed !== null && <span>স্টেশন: <span className="font-semibold">{detail.origin.stationsUsed}</span></span>}
+          {detail.origin.azimuthalGap !== null && <span>গ্যাপ: <span className="font-semibold">{detail.origin.azimuthalGap}°</span></span>}
+          {detail.origin.standardError !== null && <span>RMS: <span className="font-semibold">{detail.origin.standardError} s</span></span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventDetailPanel;
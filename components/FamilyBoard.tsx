@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { CheckIn, EarthquakeFeature } from '../types';
+import { parseCheckInLink, getMapLink } from '../utils/checkIn';
+import { Users, X, ClipboardPaste, MapPin, Trash2, HeartHandshake } from 'lucide-react';
+
+interface FamilyBoardProps {
+  board: CheckIn[];
+  myLatest: CheckIn | null;
+  earthquakes: EarthquakeFeature[];
+  onAdd: (checkIn: CheckIn) => void;
+  onRemove: (checkIn: CheckIn) => void;
+  onCheckIn: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES = {
+  safe: { className: 'bg-emerald-100 text-emerald-700', label: 'নিরাপদ' },
+  needHelp: { className: 'bg-rose-100 text-rose-700', label: 'সাহায্য দরকার' },
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString('bn-BD', {
+  day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'
+});
+
+const FamilyBoard: React.FC<FamilyBoardProps> = ({ board, myLatest, earthquakes, onAdd, onRemove, onCheckIn, onClose }) => {
+  const [linkText, setLinkText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const checkIn = parseCheckInLink(linkText);
+    if (!checkIn) {
+      setError('লিংকটি চেনা যায়নি। পুরো লিংক পেস্ট করুন।');
+      return;
+    }
+    onAdd(checkIn);
+    setLinkText('');
+    setError(null);
+  };
+
+  const getQuakeTitle = (quakeId?: string) =>
+    quakeId ? earthquakes.find(q => q.id === quakeId)?.properties.title ?? quakeId : null;
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center">
+            <Users size={18} className="mr-2 text-emerald-600"/> পরিবারের অবস্থা
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-slate-100">
+          <button
+            onClick={onCheckIn}
+            className="w-full py-2.5 rounded-lg bg-emerald-600 text-white font-medium text-sm flex items-center justify-center shadow-md hover:bg-emerald-700"
+          >
+            <HeartHandshake size={16} className="mr-2"/> আমার অবস্থা জানান
+          </button>
+          {myLatest && (
+            <p className="text-[11px] text-slate-500 text-center">
+              শেষ চেক-ইন: {STATUS_STYLES[myLatest.status].label} · {formatTime(myLatest.at)}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={linkText}
+              onChange={(e) => { setLinkText(e.target.value); setError(null); }}
+              className="flex-1 min-w-0 p-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-emerald-500 outline-none"
+              placeholder="পাওয়া চেক-ইন লিংক পেস্ট করুন"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!linkText.trim()}
+              className="px-3 rounded-lg bg-slate-900 text-white text-xs font-medium flex items-center disabled:opacity-40"
+            >
+              <ClipboardPaste size={14} className="mr-1"/> যোগ
+            </button>
+          </div>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto">
+          {board.length === 0 && (
+            <p className="text-center text-xs text-slate-400 py-4">পরিবারের কারও চেক-ইন এখনো আসেনি</p>
+          )}
+          {board.map(checkIn => {
+            const quakeTitle = getQuakeTitle(checkIn.quakeId);
+            return (
+              <div key={`${checkIn.name ?? ''}-${checkIn.at}`} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <div className="flex items-center justify-between">
+                  <div className="font-semibold text-sm text-slate-800 truncate">{checkIn.name || 'নাম নেই'}</div>
+                  <div className="flex items-center gap-1">
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${STATUS_STYLES[checkIn.status].className}`}>
+                      {STATUS_STYLES[checkIn.status].label}
+                    </span>
+                    <button
+                      onClick={() => onRemove(checkIn)}
+                      className="p-1 text-slate-400 hover:text-rose-500"
+                      title="মুছুন"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                <div className="text-xs text-slate-500 mt-1">{formatTime(checkIn.at)}</div>
+                {quakeTitle && <div className="text-[11px] text-slate-500 truncate">ভূমিকম্প: {quakeTitle}</div>}
+                {checkIn.location && (
+                  <a
+                    href={getMapLink(checkIn.location)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center text-[11px] text-blue-600 mt-1 hover:underline"
+                  >
+                    <MapPin size={12} className="mr-0.5"/> {checkIn.location.lat.toFixed(4)}, {checkIn.location.lng.toFixed(4)}
+                  </a>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FamilyBoard;
@@ -1,10 +1,15 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Tooltip, useMap, useMapEvents, Circle } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Tooltip, useMap, useMapEvents, Circle, Polygon, Polyline } from 'react-leaflet';
 import L from 'leaflet';
-import { EarthquakeFeature, LocationState, AlertZone, AlertNotification, MapStyle } from '../types';
+import { EarthquakeFeature, LocationState, AlertZone, AlertNotification, MapStyle, MapDensityMode, DensityWeight, AlertRuleSet, ZonePolygon, AftershockSequence } from '../types';
 import { formatTime } from '../services/earthquakeService';
 import { identifyLocationFromImage } from '../services/geminiService';
-import { BellPlus, Trash2, Check, X, MapPin, MousePointerClick, LocateFixed, Globe, Pencil, Eye, EyeOff, Layers, RefreshCw, Zap, ZapOff, Camera } from 'lucide-react';
+import { getPolygonsCenter, getBoundingRadiusKm, parseZoneGeoJson } from '../utils/zoneGeometry';
+import { getSequenceRoles, isSequenceActive } from '../utils/aftershocks';
+import { FOLLOW_ZONE_RADIUS_KM } from '../utils/followZone';
+import ZoneRuleEditor from './ZoneRuleEditor';
+import { HeatmapLayer, HexbinLayer, DensityLegend } from './DensityLayers';
+import { BellPlus, Trash2, Check, X, MapPin, MousePointerClick, LocateFixed, Globe, Pencil, Eye, EyeOff, Layers, RefreshCw, Zap, ZapOff, Camera, Database, Pentagon, Upload, Undo2, Navigation } from 'lucide-react';
 
 // Fix for default Leaflet marker icons in React
 const DefaultIcon = L.icon({
@@ -16,6 +21,13 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+// How events are drawn, offered in the layer menu under the map styles
+const DENSITY_MODES: { mode: MapDensityMode; label: string }[] = [
+  { mode: 'markers', label: 'মার্কার' },
+  { mode: 'heatmap', label: 'হিটম্যাপ' },
+  { mode: 'hexbin', label: 'হেক্স-বিন' },
+];
+
 // Custom User Location Icon
 const userIcon = L.divIcon({
   className: '',
@@ -66,6 +78,19 @@ const createCustomIcon = (mag: number, isAlert: boolean = false, useAnimation: b
   });
 };
 
+// Drag handle for polygon vertices
+const vertexIcon = L.divIcon({
+  className: 'zone-vertex-handle',
+  html: '<div style="width: 12px; height: 12px; background: white; border: 2px solid #10b981; border-radius: 9999px;"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6],
+});
+
+// Zone polygons are stored as GeoJSON [lng, lat]; Leaflet wants [lat, lng]
+const toLatLngs = (polygons: ZonePolygon[]): [number, number][][][] => (
+  polygons.map(polygon => polygon.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])))
+);
+
 // Component to handle map clicks for adding zones
 const MapClickHandler: React.FC<{ 
   isAdding: boolean; 
@@ -111,6 +136,14 @@ interface MapViewProps {
   onToggleAnimation: () => void;
   mapStyle: MapStyle;
   onMapStyleChange: (style: MapStyle) => void;
+  densityMode: MapDensityMode;
+  onDensityModeChange: (mode: MapDensityMode) => void;
+  densityWeight: DensityWeight;
+  onDensityWeightChange: (weight: DensityWeight) => void;
+  onOpenDatasets: () => void;
+  defaultMinMag: number;
+  sequences: AftershockSequence[];
+  isFollowLocationStale: boolean;
 }
 
 const MapView: React.FC<MapViewProps> = ({ 
@@ -128,7 +161,15 @@ const MapView: React.FC<MapViewProps> = ({
   reduceAnimation,
   onToggleAnimation,
   mapStyle,
-  onMapStyleChange
+  onMapStyleChange,
+  densityMode,
+  onDensityModeChange,
+  densityWeight,
+  onDensityWeightChange,
+  onOpenDatasets,
+  defaultMinMag,
+  sequences,
+  isFollowLocationStale
 }) => {
   const defaultCenter: [number, number] = [23.8103, 90.4125]; 
   
@@ -165,6 +206,16 @@ const MapView: React.FC<MapViewProps> = ({
   const [tempZoneLoc, setTempZoneLoc] = useState<{lat: number, lng: number} | null>(null);
   const [newZoneName, setNewZoneName] = useState('');
   const [newZoneRadius, setNewZoneRadius] = useState(50);
+  // Undefined means the zone follows the global alert threshold
+  const [newZoneRules, setNewZoneRules] = useState<AlertRuleSet | undefined>(undefined);
+  const [newZoneFollow, setNewZoneFollow] = useState(false);
+  const hasFollowZone = zones.some(z => z.followUser);
+
+  // Polygon drawing and editing; rings are GeoJSON [lng, lat]
+  const [isDrawingPolygon, setIsDrawingPolygon] = useState(false);
+  const [drawingRing, setDrawingRing] = useState<[number, number][]>([]);
+  const [tempPolygons, setTempPolygons] = useState<ZonePolygon[] | null>(null);
+  const zoneFileInputRef = useRef<HTMLInputElement>(null);
   const [showLayerMenu, setShowLayerMenu] = useState(false);
 
   // Map State Persistence Tracker
@@ -181,6 +232,10 @@ const MapView: React.FC<MapViewProps> = ({
   };
 
   const handleLocationSelect = (lat: number, lng: number) => {
+    if (isDrawingPolygon) {
+      setDrawingRing(prev => [...prev, [lng, lat]]);
+      return;
+    }
     setTempZoneLoc({ lat, lng });
     if (!editingZoneId) {
       setNewZoneName('আমার জোন');
@@ -198,6 +253,7 @@ const MapView: React.FC<MapViewProps> = ({
         setTempZoneLoc({ lat: result.lat, lng: result.lng });
         setNewZoneName(result.name || 'চিহ্নিত স্থান');
         setNewZoneRadius(50);
+        setNewZoneRules(undefined);
         setEditingZoneId(null);
         setIsAddingZone(true);
         setShowZoneManager(false);
@@ -224,6 +280,15 @@ const MapView: React.FC<MapViewProps> = ({
 
   const saveZone = () => {
     if (tempZoneLoc && newZoneName) {
+      // Polygon zones keep a center and bounding radius for labels and map fitting
+      let shape: Pick<AlertZone, 'lat' | 'lng' | 'radiusKm' | 'polygons'>;
+      if (tempPolygons) {
+        const center = getPolygonsCenter(tempPolygons);
+        shape = { ...center, radiusKm: getBoundingRadiusKm(center, tempPolygons), polygons: tempPolygons };
+      } else {
+        shape = { lat: tempZoneLoc.lat, lng: tempZoneLoc.lng, radiusKm: newZoneRadius };
+      }
+
       if (editingZoneId) {
         // Find existing to preserve visibility state
         const existing = zones.find(z => z.id === editingZoneId);
@@ -232,10 +297,10 @@ const MapView: React.FC<MapViewProps> = ({
         const updatedZone: AlertZone = {
           id: editingZoneId,
           name: newZoneName,
-          lat: tempZoneLoc.lat,
-          lng: tempZoneLoc.lng,
-          radiusKm: newZoneRadius,
-          isVisible: existing?.isVisible // Preserve visibility
+          ...shape,
+          isVisible: existing?.isVisible, // Preserve visibility
+          rules: newZoneRules,
+          followUser: existing?.followUser
         };
         onUpdateZone(updatedZone);
       } else {
@@ -243,33 +308,102 @@ const MapView: React.FC<MapViewProps> = ({
         const newZone: AlertZone = {
           id: Date.now().toString(),
           name: newZoneName,
-          lat: tempZoneLoc.lat,
-          lng: tempZoneLoc.lng,
-          radiusKm: newZoneRadius,
-          isVisible: true // Default visible
+          ...shape,
+          isVisible: true, // Default visible
+          rules: newZoneRules,
+          followUser: newZoneFollow || undefined
         };
         onAddZone(newZone);
       }
       
       // Cleanup
       setTempZoneLoc(null);
+      setTempPolygons(null);
       setIsAddingZone(false);
       setEditingZoneId(null);
+      setNewZoneFollow(false);
     }
   };
 
   const cancelZoneAdd = () => {
     setTempZoneLoc(null);
+    setTempPolygons(null);
     setIsAddingZone(false);
+    setIsDrawingPolygon(false);
+    setDrawingRing([]);
     setEditingZoneId(null);
+    setNewZoneFollow(false);
+  };
+
+  // A zone that moves with the blue dot; until GPS reports it starts at the map center
+  const startFollowZone = () => {
+    const start = userLocation ?? (mapInstance ? mapInstance.getCenter() : { lat: center[0], lng: center[1] });
+    setTempZoneLoc({ lat: start.lat, lng: start.lng });
+    setTempPolygons(null);
+    setNewZoneName('আমার অবস্থান');
+    setNewZoneRadius(FOLLOW_ZONE_RADIUS_KM);
+    setNewZoneRules(undefined);
+    setNewZoneFollow(true);
+    setEditingZoneId(null);
+    setIsAddingZone(false);
+    setShowZoneManager(false);
+  };
+
+  const startPolygonDrawing = () => {
+    setIsDrawingPolygon(true);
+    setIsAddingZone(false);
+    setDrawingRing([]);
+    setTempPolygons(null);
+    setEditingZoneId(null);
+    setNewZoneRules(undefined);
+    setShowZoneManager(false);
+  };
+
+  const finishPolygonDrawing = () => {
+    if (drawingRing.length < 3) return;
+    const polygons: ZonePolygon[] = [[drawingRing]];
+    setTempPolygons(polygons);
+    setTempZoneLoc(getPolygonsCenter(polygons));
+    setNewZoneName('আমার এলাকা');
+    setIsDrawingPolygon(false);
+    setDrawingRing([]);
+  };
+
+  const moveVertex = (polygonIdx: number, ringIdx: number, vertexIdx: number, lat: number, lng: number) => {
+    setTempPolygons(prev => prev && prev.map((polygon, p) => p !== polygonIdx ? polygon : polygon.map((ring, r) => (
+      r !== ringIdx ? ring : ring.map((vertex, v) => v === vertexIdx ? [lng, lat] as [number, number] : vertex)
+    ))));
+  };
+
+  const handleZoneFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const { zones: imported, skipped } = parseZoneGeoJson(await file.text(), `z${Date.now()}`);
+      if (imported.length === 0) {
+        alert("ফাইলে কোনো পলিগন পাওয়া যায়নি।");
+      } else {
+        imported.forEach(onAddZone);
+        if (skipped > 0) alert(`${imported.length} টি জোন যোগ হয়েছে, ${skipped} টি পলিগন নয় বলে বাদ দেওয়া হয়েছে।`);
+      }
+    } catch (error) {
+      console.error("Zone import failed:", error);
+      alert("GeoJSON ফাইলটি পড়া যায়নি।");
+    } finally {
+      if (zoneFileInputRef.current) zoneFileInputRef.current.value = '';
+    }
   };
 
   const handleEditZone = (zone: AlertZone) => {
     setNewZoneName(zone.name);
     setNewZoneRadius(zone.radiusKm);
+    setNewZoneRules(zone.rules);
     setTempZoneLoc({ lat: zone.lat, lng: zone.lng });
+    setTempPolygons(zone.polygons || null);
     setEditingZoneId(zone.id);
-    setIsAddingZone(true); // Allow them to tap map to move it
+    setNewZoneFollow(!!zone.followUser);
+    // Circles move by tapping the map; polygons are reshaped with their handles; follow-me zones move with the user
+    setIsAddingZone(!zone.polygons && !zone.followUser);
     setShowZoneManager(false);
     
     // Fly to zone to help editing
@@ -339,7 +473,11 @@ const MapView: React.FC<MapViewProps> = ({
     zones.forEach(z => {
       // Only include visible zones in fit bounds
       if (z.isVisible !== false) {
-        bounds.extend([z.lat, z.lng]);
+        if (z.polygons) {
+          z.polygons.forEach(polygon => polygon[0]?.forEach(([lng, lat]) => bounds.extend([lat, lng])));
+        } else {
+          bounds.extend([z.lat, z.lng]);
+        }
       }
     });
 
@@ -357,6 +495,7 @@ const MapView: React.FC<MapViewProps> = ({
 
   const isZoneAlerted = (zoneId: string) => activeAlerts.some(a => a.zoneId === zoneId);
   const isQuakeAlerted = (quakeId: string) => activeAlerts.some(a => a.quakeId === quakeId);
+  const sequenceRoles = getSequenceRoles(sequences);
 
   // Tile Layer URLs
   const getTileUrl = () => {
@@ -398,7 +537,7 @@ const MapView: React.FC<MapViewProps> = ({
       <MapContainer 
         center={center} 
         zoom={zoom} 
-        style={{ height: '100vh', width: '100%', cursor: isAddingZone ? 'crosshair' : 'grab', backgroundColor: mapStyle === 'dark' ? '#1a1a1a' : '#ddd' }}
+        style={{ height: '100vh', width: '100%', cursor: isAddingZone || isDrawingPolygon ? 'crosshair' : 'grab', backgroundColor: mapStyle === 'dark' ? '#1a1a1a' : '#ddd' }}
         zoomControl={false}
         ref={setMapInstance}
       >
@@ -408,7 +547,7 @@ const MapView: React.FC<MapViewProps> = ({
         />
 
         <MapStateTracker />
-        <MapClickHandler isAdding={isAddingZone} onLocationSelect={handleLocationSelect} />
+        <MapClickHandler isAdding={isAddingZone || isDrawingPolygon} onLocationSelect={handleLocationSelect} />
         
         {/* User Location */}
         {userLocation && (
@@ -426,37 +565,88 @@ const MapView: React.FC<MapViewProps> = ({
           </Marker>
         )}
 
-        {/* Zones (Circles) */}
+        {/* Zones (Circles and Polygons) */}
         {zones.map((zone) => {
           // Hide if not visible
           if (zone.isVisible === false) return null;
 
           const alerted = isZoneAlerted(zone.id);
-          // Don't show original circle if currently editing it and we have a temp location (preview)
+          // Don't show original shape if currently editing it and we have a temp location (preview)
           if (editingZoneId === zone.id && tempZoneLoc) return null;
 
+          const pathOptions = { 
+            color: alerted ? '#ef4444' : (mapStyle === 'dark' ? '#60a5fa' : '#3b82f6'), 
+            fillColor: alerted ? '#ef4444' : (mapStyle === 'dark' ? '#60a5fa' : '#3b82f6'), 
+            fillOpacity: alerted ? 0.3 : 0.15, 
+            dashArray: alerted ? '' : '5, 10',
+            className: (!reduceAnimation && alerted) ? 'zone-alert-active' : ''
+          };
+          const label = (
+            <Tooltip permanent direction="center" className="zone-label">
+              {zone.name}
+              {zone.followUser && isFollowLocationStale && <span className="block text-[10px] font-normal">শেষ জানা অবস্থান</span>}
+            </Tooltip>
+          );
+
+          if (zone.polygons) {
+            return (
+              <Polygon key={zone.id} positions={toLatLngs(zone.polygons)} pathOptions={pathOptions}>
+                {label}
+              </Polygon>
+            );
+          }
+
           return (
             <Circle
               key={zone.id}
               center={[zone.lat, zone.lng]}
               radius={zone.radiusKm * 1000} // Leaflet takes meters
-              pathOptions={{ 
-                color: alerted ? '#ef4444' : (mapStyle === 'dark' ? '#60a5fa' : '#3b82f6'), 
-                fillColor: alerted ? '#ef4444' : (mapStyle === 'dark' ? '#60a5fa' : '#3b82f6'), 
-                fillOpacity: alerted ? 0.3 : 0.15, 
-                dashArray: alerted ? '' : '5, 10',
-                className: (!reduceAnimation && alerted) ? 'zone-alert-active' : ''
-              }}
+              pathOptions={pathOptions}
             >
-               <Tooltip permanent direction="center" className="zone-label">
-                  {zone.name}
-               </Tooltip>
+               {label}
             </Circle>
           );
         })}
 
+        {/* Polygon being drawn */}
+        {isDrawingPolygon && drawingRing.length > 0 && (
+          <>
+            <Polyline 
+              positions={drawingRing.map(([lng, lat]) => [lat, lng] as [number, number])} 
+              pathOptions={{ color: '#10b981', dashArray: '5, 5' }} 
+            />
+            {drawingRing.map(([lng, lat], i) => (
+              <Marker key={`draw-${i}`} position={[lat, lng]} icon={vertexIcon} />
+            ))}
+          </>
+        )}
+
+        {/* Temporary Polygon with drag handles while adding/editing */}
+        {tempPolygons && (
+          <>
+            <Polygon 
+              positions={toLatLngs(tempPolygons)} 
+              pathOptions={{ color: '#10b981', fillColor: '#10b981', fillOpacity: 0.2, dashArray: '5, 5' }} 
+            />
+            {tempPolygons.map((polygon, p) => polygon.map((ring, r) => ring.map(([lng, lat], v) => (
+              <Marker
+                key={`vertex-${p}-${r}-${v}`}
+                position={[lat, lng]}
+                icon={vertexIcon}
+                draggable
+                eventHandlers={{
+                  dragend: (e) => {
+                    const pos = (e.target as L.Marker).getLatLng();
+                    moveVertex(p, r, v, pos.lat, pos.lng);
+                  }
+                }}
+              />
+            ))))}
+          </>
+        )}
+
         {/* Temporary Circle while adding/editing */}
-        {tempZoneLoc && (
+        {tempZoneLoc && !tempPolygons && (
            <Circle
            center={[tempZoneLoc.lat, tempZoneLoc.lng]}
            radius={newZoneRadius * 1000}
@@ -464,8 +654,21 @@ const MapView: React.FC<MapViewProps> = ({
          />
         )}
 
+        {/* Active aftershock sequence areas */}
+        {sequences.filter(s => s.aftershockIds.length > 0 && isSequenceActive(s)).map(sequence => (
+          <Circle
+            key={`seq-${sequence.id}`}
+            center={[sequence.mainshock.geometry.coordinates[1], sequence.mainshock.geometry.coordinates[0]]}
+            radius={sequence.radiusKm * 1000}
+            pathOptions={{ color: '#6366f1', fillColor: '#6366f1', fillOpacity: 0.05, weight: 1, dashArray: '4, 6' }}
+          />
+        ))}
+
+        {densityMode === 'heatmap' && <HeatmapLayer earthquakes={earthquakes} weight={densityWeight} />}
+        {densityMode === 'hexbin' && <HexbinLayer earthquakes={earthquakes} weight={densityWeight} />}
+
         {/* Earthquake Markers */}
-        {earthquakes.map((quake) => {
+        {densityMode === 'markers' && earthquakes.map((quake) => {
           const alerted = isQuakeAlerted(quake.id);
           return (
             <Marker
@@ -505,6 +708,28 @@ const MapView: React.FC<MapViewProps> = ({
                     <div className="text-[11px] text-slate-500 text-center font-medium">
                       {formatTime(quake.properties.time)}
                     </div>
+                    {sequenceRoles.has(quake.id) && (
+                      <div className="text-[10px] text-indigo-700 text-center font-semibold mt-1">
+                        {sequenceRoles.get(quake.id)!.role === 'mainshock'
+                          ? `মূল কম্পন · ${sequenceRoles.get(quake.id)!.sequence.aftershockIds.length} টি আফটারশক`
+                          : `M${sequenceRoles.get(quake.id)!.sequence.mainshock.properties.mag.toFixed(1)} এর আফটারশক`}
+                      </div>
+                    )}
+                    {quake.datasetId && (
+                      <div className="text-[10px] text-violet-700 text-center font-semibold mt-1">
+                        ইমপোর্ট করা ডেটা
+                      </div>
+                    )}
+                    {quake.isDrill && (
+                      <div className="text-[10px] text-amber-700 text-center font-semibold mt-1">
+                        মহড়া — আসল ভূমিকম্প নয়
+                      </div>
+                    )}
+                    {quake.reports && quake.reports.length > 1 && (
+                      <div className="text-[10px] text-sky-700 text-center font-semibold uppercase mt-1">
+                        {quake.reports.map(r => r.provider).join(' · ')}
+                      </div>
+                    )}
                   </div>
                 </div>
               </Tooltip>
@@ -517,6 +742,12 @@ const MapView: React.FC<MapViewProps> = ({
       {/* Overlay Gradient */}
       <div className="absolute top-0 left-0 right-0 h-24 bg-gradient-to-b from-black/20 to-transparent pointer-events-none z-[400]" />
 
+      {densityMode !== 'markers' && !tempZoneLoc && (
+        <div className="absolute bottom-24 left-4 z-[500]">
+          <DensityLegend weight={densityWeight} onWeightChange={onDensityWeightChange} />
+        </div>
+      )}
+
       {/* Analysis Loading Badge */}
       {isAnalyzingImage && (
         <div className="absolute top-32 left-1/2 -translate-x-1/2 bg-indigo-600 text-white px-4 py-2 rounded-full shadow-lg z-[600] text-sm font-medium animate-pulse flex items-center whitespace-nowrap">
@@ -589,6 +820,23 @@ const MapView: React.FC<MapViewProps> = ({
                >
                  ডার্ক মোড
                </button>
+               <div className="h-px bg-slate-100 my-1"></div>
+               {DENSITY_MODES.map(({ mode, label }) => (
+                 <button
+                  key={mode}
+                  onClick={() => { onDensityModeChange(mode); setShowLayerMenu(false); }}
+                  className={`text-xs font-semibold px-3 py-2 rounded-lg text-left ${densityMode === mode ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}
+                 >
+                   {label}
+                 </button>
+               ))}
+               <div className="h-px bg-slate-100 my-1"></div>
+               <button 
+                onClick={() => { onOpenDatasets(); setShowLayerMenu(false); }}
+                className="text-xs font-semibold px-3 py-2 rounded-lg text-left text-slate-600 hover:bg-slate-50 flex items-center"
+               >
+                 <Database size={12} className="mr-1.5"/> ডেটাসেট
+               </button>
             </div>
           )}
         </div>
@@ -640,6 +888,7 @@ const MapView: React.FC<MapViewProps> = ({
               setEditingZoneId(null);
               setNewZoneName('আমার জোন');
               setNewZoneRadius(50);
+              setNewZoneRules(undefined);
               setShowZoneManager(false);
             }}
             className={`w-full py-2.5 rounded-lg font-medium text-sm flex items-center justify-center mb-4 transition-all ${
@@ -649,13 +898,47 @@ const MapView: React.FC<MapViewProps> = ({
             {isAddingZone ? <span className="animate-pulse">ম্যাপে ট্যাপ করুন...</span> : <><MapPin size={16} className="mr-2"/> নতুন জোন যোগ করুন</>}
           </button>
 
+          <div className="grid grid-cols-2 gap-2 -mt-2 mb-4">
+            <button
+              onClick={startPolygonDrawing}
+              className="py-2 rounded-lg font-medium text-xs flex items-center justify-center bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+            >
+              <Pentagon size={14} className="mr-1.5"/> পলিগন আঁকুন
+            </button>
+            <button
+              onClick={() => zoneFileInputRef.current?.click()}
+              className="py-2 rounded-lg font-medium text-xs flex items-center justify-center bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+            >
+              <Upload size={14} className="mr-1.5"/> GeoJSON ইমপোর্ট
+            </button>
+            {!hasFollowZone && (
+              <button
+                onClick={startFollowZone}
+                className="col-span-2 py-2 rounded-lg font-medium text-xs flex items-center justify-center bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-colors"
+              >
+                <Navigation size={14} className="mr-1.5"/> আমাকে অনুসরণ করা জোন
+              </button>
+            )}
+            <input 
+              type="file" 
+              accept=".json,.geojson" 
+              ref={zoneFileInputRef} 
+              onChange={handleZoneFile} 
+              className="hidden" 
+            />
+          </div>
+
           <div className="space-y-2 max-h-40 overflow-y-auto no-scrollbar">
             {zones.length === 0 && <p className="text-center text-xs text-slate-400 py-2">কোনো জোন তৈরি করা হয়নি</p>}
             {zones.map(zone => (
               <div key={zone.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-lg border border-slate-100">
                 <div className="flex-1 min-w-0 mr-2">
                   <div className={`font-semibold text-sm truncate ${isZoneAlerted(zone.id) ? 'text-red-600' : 'text-slate-700'}`}>{zone.name}</div>
-                  <div className="text-xs text-slate-500">{zone.radiusKm} কিমি এলাকা</div>
+                  <div className="text-xs text-slate-500">
+                    {zone.polygons ? 'পলিগন এলাকা' : `${zone.radiusKm} কিমি এলাকা`}
+                    {zone.followUser && <span className="ml-1 text-emerald-600">· {isFollowLocationStale ? 'শেষ জানা অবস্থানে' : 'আপনার সাথে চলমান'}</span>}
+                    {zone.rules && <span className="ml-1 text-blue-600">· {zone.rules.rules.length} টি নিজস্ব শর্ত</span>}
+                  </div>
                 </div>
                 <div className="flex items-center gap-1">
                   <button 
@@ -705,35 +988,66 @@ const MapView: React.FC<MapViewProps> = ({
                   placeholder="যেমন: বাসা, অফিস..."
                />
              </div>
+             {tempPolygons ? (
+               <p className="text-xs text-emerald-700 bg-emerald-50 p-2 rounded text-center">
+                 পলিগন: {tempPolygons.reduce((sum, polygon) => sum + polygon[0].length, 0)} টি বিন্দু — সবুজ বিন্দু টেনে সীমানা ঠিক করুন
+               </p>
+             ) : (
+               <div>
+                  <div className="flex justify-between">
+                    <label className="text-xs font-semibold text-slate-500 uppercase">ব্যাসার্ধ (Radius)</label>
+                    <span className="text-xs font-bold text-blue-600">{newZoneRadius} কিমি</span>
+                  </div>
+                  <div className="flex gap-2 items-center mt-2">
+                     <input 
+                        type="number"
+                        min="1"
+                        max="200"
+                        value={newZoneRadius}
+                        onChange={(e) => {
+                          const val = parseInt(e.target.value);
+                          if (!isNaN(val)) setNewZoneRadius(Math.max(1, Math.min(200, val)));
+                        }}
+                        className="w-20 p-1 border border-slate-300 rounded text-center text-sm"
+                     />
+                     <input 
+                        type="range" 
+                        min="1" 
+                        max="200" 
+                        step="1"
+                        value={newZoneRadius}
+                        onChange={(e) => setNewZoneRadius(parseInt(e.target.value))}
+                        className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                     />
+                  </div>
+               </div>
+             )}
+             
              <div>
-                <div className="flex justify-between">
-                  <label className="text-xs font-semibold text-slate-500 uppercase">ব্যাসার্ধ (Radius)</label>
-                  <span className="text-xs font-bold text-blue-600">{newZoneRadius} কিমি</span>
-                </div>
-                <div className="flex gap-2 items-center mt-2">
-                   <input 
-                      type="number"
-                      min="1"
-                      max="200"
-                      value={newZoneRadius}
-                      onChange={(e) => {
-                        const val = parseInt(e.target.value);
-                        if (!isNaN(val)) setNewZoneRadius(Math.max(1, Math.min(200, val)));
-                      }}
-                      className="w-20 p-1 border border-slate-300 rounded text-center text-sm"
-                   />
-                   <input 
-                      type="range" 
-                      min="1" 
-                      max="200" 
-                      step="1"
-                      value={newZoneRadius}
-                      onChange={(e) => setNewZoneRadius(parseInt(e.target.value))}
-                      className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                   />
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">নিজস্ব অ্যালার্ট শর্ত</label>
+                  <button 
+                    onClick={() => setNewZoneRules(newZoneRules ? undefined : { combinator: 'all', rules: [{ kind: 'minMag', value: defaultMinMag }] })}
+                    className={`w-10 h-6 rounded-full transition-colors relative ${newZoneRules ? 'bg-blue-600' : 'bg-slate-300'}`}
+                  >
+                    <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${newZoneRules ? 'translate-x-4' : ''}`}></div>
+                  </button>
                 </div>
+                {newZoneRules ? (
+                  <div className="mt-2 max-h-48 overflow-y-auto no-scrollbar">
+                    <ZoneRuleEditor value={newZoneRules} onChange={setNewZoneRules} />
+                  </div>
+                ) : (
+                  <p className="text-[11px] text-slate-400 mt-1">সেটিংসের সাধারণ মাত্রা ({defaultMinMag}+) ব্যবহার হবে</p>
+                )}
              </div>
-             
+
+             {newZoneFollow && (
+               <p className="text-xs text-emerald-700 bg-emerald-50 p-2 rounded text-center">
+                 এই জোন আপনার লাইভ অবস্থানের সাথে সরে যাবে
+               </p>
+             )}
+
              {isAddingZone && editingZoneId && (
                <p className="text-xs text-blue-600 bg-blue-50 p-2 rounded text-center animate-pulse">
                  লোকেশন পরিবর্তন করতে ম্যাপে ট্যাপ করুন
@@ -750,6 +1064,33 @@ const MapView: React.FC<MapViewProps> = ({
         </div>
       )}
 
+      {/* Polygon drawing toolbar */}
+      {isDrawingPolygon && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 bg-white rounded-xl shadow-lg z-[600] p-3 flex flex-col items-center gap-2 w-64">
+          <span className="text-sm font-medium text-slate-700 text-center">
+            এলাকার কোণগুলোতে ট্যাপ করুন ({drawingRing.length} টি বিন্দু)
+          </span>
+          <div className="flex gap-2 w-full">
+            <button onClick={cancelZoneAdd} className="flex-1 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-xs font-medium">বাতিল</button>
+            <button 
+              onClick={() => setDrawingRing(prev => prev.slice(0, -1))} 
+              disabled={drawingRing.length === 0}
+              className="py-1.5 px-2 bg-slate-100 text-slate-600 rounded-lg disabled:opacity-50"
+              title="শেষ বিন্দু মুছুন"
+            >
+              <Undo2 size={14} />
+            </button>
+            <button 
+              onClick={finishPolygonDrawing} 
+              disabled={drawingRing.length < 3}
+              className="flex-1 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-medium disabled:opacity-50"
+            >
+              শেষ করুন
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Instruction Toast when Adding */}
       {isAddingZone && !tempZoneLoc && (
         <div className="absolute top-24 left-1/2 -translate-x-1/2 bg-blue-600 text-white px-4 py-2 rounded-full shadow-lg z-[600] text-sm font-medium animate-bounce">
@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// The spec asks for a four-module light border around the symbol
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192 }) => {
+  const path = useMemo(() => {
+    const matrix = encodeQr(value);
+    let d = '';
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+    }));
+    return { d, modules: matrix.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${path.modules} ${path.modules}`}
+      shapeRendering="crispEdges"
+      className="bg-white"
+    >
+      <path d={path.d} fill="#0f172a" />
+    </svg>
+  );
+};
+
+export default QrCode;
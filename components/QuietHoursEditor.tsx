@@ -0,0 +1,104 @@
+import React from 'react';
+import { QuietHoursDay, QuietHoursSchedule } from '../types';
+import { formatMmi } from '../utils/groundMotion';
+import { Moon, Check } from 'lucide-react';
+
+interface QuietHoursEditorProps {
+  value: QuietHoursSchedule;
+  onChange: (schedule: QuietHoursSchedule) => void;
+  isQuietNow: boolean;
+}
+
+const DAY_LABELS = ['রবি', 'সোম', 'মঙ্গল', 'বুধ', 'বৃহঃ', 'শুক্র', 'শনি'];
+const MMI_LEVELS = [4, 5, 6, 7, 8];
+
+const timeInputClass = "p-1 border border-slate-300 rounded text-xs bg-white disabled:opacity-40";
+
+const QuietHoursEditor: React.FC<QuietHoursEditorProps> = ({ value, onChange, isQuietNow }) => {
+  const updateDay = (index: number, day: QuietHoursDay) => {
+    onChange({ ...value, days: value.days.map((d, i) => i === index ? day : d) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium text-slate-800 text-sm flex items-center">
+            <Moon size={14} className="mr-1.5 text-indigo-500"/> নীরব সময় (Quiet Hours)
+          </div>
+          <div className="text-xs text-slate-500">
+            {value.enabled && isQuietNow ? 'এখন নীরব — শুধু দৃশ্যমান অ্যালার্ট' : 'নির্ধারিত সময়ে সাইরেন ও ভয়েস বন্ধ'}
+          </div>
+        </div>
+        <button
+          onClick={() => onChange({ ...value, enabled: !value.enabled })}
+          className={`w-10 h-6 rounded-full transition-colors relative ${value.enabled ? 'bg-green-500' : 'bg-slate-300'}`}
+        >
+          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${value.enabled ? 'translate-x-4' : ''}`}></div>
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="animate-in slide-in-from-top-2 space-y-3">
+          <div className="space-y-1.5">
+            {value.days.map((day, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <div
+                  className={`w-4 h-4 rounded border flex items-center justify-center cursor-pointer ${day.enabled ? 'bg-blue-600 border-blue-600' : 'border-slate-300'}`}
+                  onClick={() => updateDay(index, { ...day, enabled: !day.enabled })}
+                >
+                  {day.enabled && <Check size={10} className="text-white" />}
+                </div>
+                <span className="text-xs text-slate-700 w-10">{DAY_LABELS[index]}</span>
+                <input
+                  type="time"
+                  value={day.start}
+                  disabled={!day.enabled}
+                  onChange={(e) => updateDay(index, { ...day, start: e.target.value })}
+                  className={timeInputClass}
+                />
+                <span className="text-xs text-slate-400">–</span>
+                <input
+                  type="time"
+                  value={day.end}
+                  disabled={!day.enabled}
+                  onChange={(e) => updateDay(index, { ...day, end: e.target.value })}
+                  className={timeInputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="pt-2 border-t border-slate-200 space-y-2">
+            <div className="text-xs font-medium text-slate-600">তবুও শব্দ হবে যদি</div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-700">মাত্রা ≥</span>
+              <span className="text-xs font-bold text-rose-600">{value.overrideMag.toFixed(1)}</span>
+            </div>
+            <input
+              type="range"
+              min="4.0"
+              max="8.0"
+              step="0.1"
+              value={value.overrideMag}
+              onChange={(e) => onChange({ ...value, overrideMag: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-600"
+            />
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-700">অথবা আনুমানিক তীব্রতা ≥</span>
+              <select
+                value={value.overrideMmi}
+                onChange={(e) => onChange({ ...value, overrideMmi: Number(e.target.value) })}
+                className="p-1 border border-slate-300 rounded text-xs bg-white"
+              >
+                {MMI_LEVELS.map(level => <option key={level} value={level}>MMI {formatMmi(level)}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuietHoursEditor;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { CheckIn, SafetyStatus } from '../types';
+import { buildCheckInLink, buildCheckInMessage } from '../utils/checkIn';
+import QrCode from './QrCode';
+import { HeartHandshake, X, ShieldCheck, LifeBuoy, Share2, Copy, Check } from 'lucide-react';
+
+interface SafetyCheckInProps {
+  // Null while asking; set once the user has answered
+  checkIn: CheckIn | null;
+  quakeTitle?: string;
+  name: string;
+  onNameChange: (name: string) => void;
+  onAnswer: (status: SafetyStatus) => void;
+  onClose: () => void;
+}
+
+const SafetyCheckIn: React.FC<SafetyCheckInProps> = ({ checkIn, quakeTitle, name, onNameChange, onAnswer, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  // The name is applied at share time so it can still be fixed after answering
+  const shared = checkIn ? { ...checkIn, name: name.trim() || undefined } : null;
+  const link = shared ? buildCheckInLink(shared) : '';
+  const message = shared ? buildCheckInMessage(shared, link, quakeTitle) : '';
+
+  const handleShare = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'আমার অবস্থা', text: message });
+      } catch (err) {
+        console.error("Share failed:", err);
+      }
+    } else {
+      handleCopy();
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Clipboard failed:", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center">
+            <HeartHandshake size={18} className="mr-2 text-emerald-600"/> নিরাপত্তা চেক-ইন
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className="text-xs font-semibold text-slate-500 uppercase">আপনার নাম</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => onNameChange(e.target.value)}
+              maxLength={60}
+              className="w-full mt-1 p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+              placeholder="পরিবার যেন চিনতে পারে"
+            />
+          </div>
+
+          {!shared ? (
+            <div className="space-y-3">
+              <p className="text-center font-semibold text-slate-800">আপনি কি নিরাপদ আছেন?</p>
+              {quakeTitle && <p className="text-center text-xs text-slate-500">{quakeTitle}</p>}
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => onAnswer('safe')}
+                  className="py-4 rounded-xl bg-emerald-600 text-white font-bold flex flex-col items-center gap-1 shadow-md hover:bg-emerald-700"
+                >
+                  <ShieldCheck size={24}/> আমি নিরাপদ
+                </button>
+                <button
+                  onClick={() => onAnswer('needHelp')}
+                  className="py-4 rounded-xl bg-rose-600 text-white font-bold flex flex-col items-center gap-1 shadow-md hover:bg-rose-700"
+                >
+                  <LifeBuoy size={24}/> সাহায্য দরকার
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className={`p-2 rounded-lg text-center text-sm font-semibold ${shared.status === 'safe' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+                {shared.status === 'safe' ? 'নিরাপদ হিসেবে রেকর্ড হয়েছে' : 'সাহায্য চাওয়া রেকর্ড হয়েছে'}
+                {!shared.location && <span className="block text-[11px] font-normal">অবস্থান জানা নেই — লিংকে স্থান থাকবে না</span>}
+              </div>
+              <div className="flex justify-center">
+                <QrCode value={link} />
+              </div>
+              <pre className="text-[11px] text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-2 whitespace-pre-wrap break-all font-sans">{message}</pre>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={handleShare}
+                  className="py-2 rounded-lg bg-emerald-600 text-white font-medium text-sm flex items-center justify-center hover:bg-emerald-700"
+                >
+                  <Share2 size={16} className="mr-1.5"/> শেয়ার করুন
+                </button>
+                <button
+                  onClick={handleCopy}
+                  className="py-2 rounded-lg bg-slate-100 text-slate-700 font-medium text-sm flex items-center justify-center hover:bg-slate-200"
+                >
+                  {copied ? <><Check size={16} className="mr-1.5"/> কপি হয়েছে</> : <><Copy size={16} className="mr-1.5"/> কপি করুন</>}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyCheckIn;
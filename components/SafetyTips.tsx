@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { getSafetyAnalysis, getSafetyChatResponse } from '../services/geminiService';
 import { EarthquakeFeature } from '../types';
+import { createAudioContext } from '../utils/audio';
 import { ShieldCheck, Bot, CheckSquare, Square, Volume2, Octagon, BriefcaseMedical, VolumeX, AlertTriangle, MessageCircle, Send, User } from 'lucide-react';
 
 interface SafetyTipsProps {
@@ -95,8 +96,7 @@ const SafetyTips: React.FC<SafetyTipsProps> = ({ recentQuakes }) => {
     setIsSirenActive(true);
 
     try {
-      const Ctx = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new Ctx();
+      const ctx = createAudioContext();
       audioCtxRef.current = ctx;
 
       const osc = ctx.createOscillator();
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+interface WaveCountdownProps {
+  sArrival: number; // Epoch ms
+  reduceAnimation?: boolean;
+}
+
+// Seconds left until strong shaking arrives; renders nothing once it has
+const WaveCountdown: React.FC<WaveCountdownProps> = ({ sArrival, reduceAnimation = false }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = Math.ceil((sArrival - now) / 1000);
+
+  useEffect(() => {
+    if (sArrival <= Date.now()) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= sArrival) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [sArrival]);
+
+  if (remaining <= 0) return null;
+
+  return (
+    <div className={`mt-2 flex items-center gap-3 bg-yellow-400 text-red-900 rounded-lg px-3 py-2 ${reduceAnimation ? '' : 'animate-pulse'}`}>
+      <Timer size={22} className="shrink-0" />
+      <div className="flex-1 leading-tight">
+        <p className="text-[11px] font-semibold">শক্তিশালী কম্পন পৌঁছাতে বাকি</p>
+        <p className="text-[10px] opacity-80">নিরাপদ স্থানে আশ্রয় নিন</p>
+      </div>
+      <span className="text-3xl font-black tabular-nums">{remaining}<span className="text-sm font-bold ml-0.5">সে.</span></span>
+    </div>
+  );
+};
+
+export default WaveCountdown;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { AlertZone, WebhookConfig, WebhookDelivery, WebhookDeliveryStatus } from '../types';
+import { Webhook, X, Plus, Pencil, Trash2, Send, Check } from 'lucide-react';
+
+interface WebhookManagerProps {
+  hooks: WebhookConfig[];
+  log: WebhookDelivery[];
+  zones: AlertZone[];
+  onChange: (hooks: WebhookConfig[]) => void;
+  onTest: (hook: WebhookConfig) => void;
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, { className: string; label: string }> = {
+  pending: { className: 'bg-amber-100 text-amber-700', label: 'পাঠানো হচ্ছে' },
+  delivered: { className: 'bg-green-100 text-green-700', label: 'পৌঁছেছে' },
+  failed: { className: 'bg-rose-100 text-rose-700', label: 'ব্যর্থ' },
+};
+
+const TEMPLATE_HINT = '{"text": "M{{quake.mag}} ভূমিকম্প, {{zone.name}} থেকে {{distanceKm}} কিমি"}';
+
+const createHook = (): WebhookConfig => ({
+  id: `hook${Date.now()}`,
+  name: 'নতুন ওয়েবহুক',
+  url: '',
+  enabled: true,
+  minMag: 0,
+  zoneIds: [],
+  includeDrills: false,
+});
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString('bn-BD', {
+  day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', second: '2-digit'
+});
+
+const inputClass = "w-full mt-1 p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+const WebhookManager: React.FC<WebhookManagerProps> = ({ hooks, log, zones, onChange, onTest, onClearLog, onClose }) => {
+  const [draft, setDraft] = useState<WebhookConfig | null>(null);
+
+  const isValidUrl = (url: string) => /^https?:\/\/\S+$/.test(url.trim());
+
+  const saveDraft = () => {
+    if (!draft || !isValidUrl(draft.url)) return;
+    const hook = { ...draft, url: draft.url.trim() };
+    onChange(hooks.some(h => h.id === hook.id) ? hooks.map(h => h.id === hook.id ? hook : h) : [...hooks, hook]);
+    setDraft(null);
+  };
+
+  const toggleZone = (zoneId: string) => {
+    if (!draft) return;
+    const zoneIds = draft.zoneIds.includes(zoneId) ? draft.zoneIds.filter(id => id !== zoneId) : [...draft.zoneIds, zoneId];
+    setDraft({ ...draft, zoneIds });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center">
+            <Webhook size={18} className="mr-2 text-slate-500"/> ওয়েবহুক
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {draft ? (
+            <div className="space-y-3">
+              <div>
+                <label className="text-xs font-semibold text-slate-500 uppercase">নাম</label>
+                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 uppercase">URL</label>
+                <input
+                  type="url"
+                  value={draft.url}
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  className={inputClass}
+                  placeholder="http://localhost:8788/hook"
+                />
+                {draft.url && !isValidUrl(draft.url) && <p className="text-[11px] text-rose-600 mt-1">http:// বা https:// দিয়ে শুরু হতে হবে</p>}
+              </div>
+              <div>
+                <div className="flex justify-between">
+                  <label className="text-xs font-semibold text-slate-500 uppercase">সর্বনিম্ন মাত্রা</label>
+                  <span className="text-xs font-bold text-blue-600">{draft.minMag.toFixed(1)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="8"
+                  step="0.1"
+                  value={draft.minMag}
+                  onChange={(e) => setDraft({ ...draft, minMag: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 uppercase">জোন</label>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <button
+                    onClick={() => setDraft({ ...draft, zoneIds: [] })}
+                    className={`px-2 py-1 rounded-full text-[11px] font-medium ${draft.zoneIds.length === 0 ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600'}`}
+                  >
+                    সব জোন
+                  </button>
+                  {zones.map(zone => (
+                    <button
+                      key={zone.id}
+                      onClick={() => toggleZone(zone.id)}
+                      className={`px-2 py-1 rounded-full text-[11px] font-medium ${draft.zoneIds.includes(zone.id) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600'}`}
+                    >
+                      {zone.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-xs text-slate-700">মহড়ার অ্যালার্টও পাঠান</span>
+                <div
+                  className={`w-4 h-4 rounded border flex items-center justify-center ${draft.includeDrills ? 'bg-blue-600 border-blue-600' : 'border-slate-300'}`}
+                  onClick={() => setDraft({ ...draft, includeDrills: !draft.includeDrills })}
+                >
+                  {draft.includeDrills && <Check size={10} className="text-white" />}
+                </div>
+              </label>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 uppercase">বার্তার টেমপ্লেট (ঐচ্ছিক)</label>
+                <textarea
+                  value={draft.template ?? ''}
+                  onChange={(e) => setDraft({ ...draft, template: e.target.value || undefined })}
+                  rows={3}
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder={TEMPLATE_HINT}
+                />
+                <p className="text-[10px] text-slate-400 mt-1">খালি রাখলে পুরো JSON পেলোড যাবে। {'{{quake.mag}}'}, {'{{zone.name}}'}, {'{{mmiRoman}}'} ইত্যাদি ব্যবহার করুন।</p>
+              </div>
+              <div className="flex gap-3 pt-1">
+                <button onClick={() => setDraft(null)} className="flex-1 py-2 bg-slate-100 text-slate-600 font-medium rounded-lg text-sm">বাতিল</button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!isValidUrl(draft.url)}
+                  className="flex-1 py-2 bg-blue-600 text-white font-medium rounded-lg text-sm shadow-lg hover:bg-blue-700 disabled:opacity-40"
+                >
+                  সেভ করুন
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {hooks.length === 0 && <p className="text-center text-xs text-slate-400 py-2">কোনো ওয়েবহুক নেই</p>}
+                {hooks.map(hook => (
+                  <div key={hook.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-lg border border-slate-100">
+                    <div className="flex-1 min-w-0 mr-2">
+                      <div className={`font-semibold text-sm truncate ${hook.enabled ? 'text-slate-700' : 'text-slate-400'}`}>{hook.name}</div>
+                      <div className="text-[11px] text-slate-500 truncate">{hook.url}</div>
+                      <div className="text-[10px] text-slate-400">
+                        M{hook.minMag.toFixed(1)}+ · {hook.zoneIds.length === 0 ? 'সব জোন' : `${hook.zoneIds.length} টি জোন`}
+                        {hook.template && ' · টেমপ্লেট'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => onChange(hooks.map(h => h.id === hook.id ? { ...h, enabled: !h.enabled } : h))}
+                        className={`w-8 h-5 rounded-full transition-colors relative ${hook.enabled ? 'bg-green-500' : 'bg-slate-300'}`}
+                      >
+                        <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform ${hook.enabled ? 'translate-x-3' : ''}`}></div>
+                      </button>
+                      <button onClick={() => onTest(hook)} className="p-1.5 text-blue-500 hover:bg-blue-50 rounded" title="পরীক্ষা পাঠান">
+                        <Send size={14} />
+                      </button>
+                      <button onClick={() => setDraft(hook)} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="এডিট">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => onChange(hooks.filter(h => h.id !== hook.id))} className="p-1.5 text-rose-500 hover:bg-rose-50 rounded" title="ডিলিট">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => setDraft(createHook())}
+                className="w-full py-2.5 rounded-lg font-medium text-sm flex items-center justify-center bg-slate-900 text-white shadow-md hover:bg-slate-800"
+              >
+                <Plus size={16} className="mr-2"/> ওয়েবহুক যোগ করুন
+              </button>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">ডেলিভারি লগ</span>
+                  {log.length > 0 && (
+                    <button onClick={onClearLog} className="text-[11px] text-rose-600 font-medium">মুছুন</button>
+                  )}
+                </div>
+                {log.length === 0 && <p className="text-center text-xs text-slate-400 py-2">এখনো কিছু পাঠানো হয়নি</p>}
+                {log.map(delivery => (
+                  <div key={delivery.id} className="bg-slate-50 p-2 rounded-lg border border-slate-100 text-[11px]">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-slate-700 truncate mr-2">{delivery.hookName} · {delivery.summary}</span>
+                      <span className={`shrink-0 font-bold px-1.5 py-0.5 rounded ${STATUS_STYLES[delivery.status].className}`}>
+                        {STATUS_STYLES[delivery.status].label}
+                      </span>
+                    </div>
+                    <div className="text-slate-500 mt-0.5">
+                      {formatTime(delivery.startedAt)} · {delivery.attempts} বার চেষ্টা
+                      {delivery.httpStatus !== undefined && ` · HTTP ${delivery.httpStatus}`}
+                    </div>
+                    {delivery.error && <div className="text-rose-600 break-all">{delivery.error}</div>}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WebhookManager;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { AlertRule, AlertRuleKind, AlertRuleSet } from '../types';
+import { Plus, X } from 'lucide-react';
+import { formatMmi } from '../utils/groundMotion';
+
+interface ZoneRuleEditorProps {
+  value: AlertRuleSet;
+  onChange: (ruleSet: AlertRuleSet) => void;
+}
+
+const RULE_LABELS: Record<AlertRuleKind, string> = {
+  minMag: 'সর্বনিম্ন মাত্রা',
+  maxDepth: 'সর্বোচ্চ গভীরতা (কিমি)',
+  tsunami: 'সুনামি সতর্কতা আছে',
+  eventType: 'ঘটনার ধরন',
+  minSig: 'সর্বনিম্ন গুরুত্ব (sig)',
+  reviewStatus: 'যাচাই অবস্থা',
+  minMmi: 'আনুমানিক তীব্রতা (MMI) ≥',
+};
+
+const RULE_ORDER: AlertRuleKind[] = ['minMag', 'maxDepth', 'tsunami', 'eventType', 'minSig', 'reviewStatus', 'minMmi'];
+
+const MMI_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+const EVENT_TYPES = ['earthquake', 'explosion', 'quarry blast', 'ice quake'];
+
+const createRule = (kind: AlertRuleKind): AlertRule => {
+  switch (kind) {
+    case 'minMag': return { kind, value: 4 };
+    case 'maxDepth': return { kind, value: 70 };
+    case 'tsunami': return { kind };
+    case 'eventType': return { kind, value: 'earthquake' };
+    case 'minSig': return { kind, value: 600 };
+    case 'reviewStatus': return { kind, value: 'reviewed' };
+    case 'minMmi': return { kind, value: 5 };
+  }
+};
+
+const inputClass = "w-24 p-1 border border-slate-300 rounded text-center text-xs bg-white";
+
+const ZoneRuleEditor: React.FC<ZoneRuleEditorProps> = ({ value, onChange }) => {
+  const unusedKinds = RULE_ORDER.filter(kind => !value.rules.some(r => r.kind === kind));
+
+  const updateRule = (index: number, rule: AlertRule) => {
+    onChange({ ...value, rules: value.rules.map((r, i) => i === index ? rule : r) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+  };
+
+  const renderInput = (rule: AlertRule, index: number) => {
+    switch (rule.kind) {
+      case 'minMag':
+      case 'maxDepth':
+      case 'minSig':
+        return (
+          <input
+            type="number"
+            step={rule.kind === 'minMag' ? 0.1 : 1}
+            value={rule.value}
+            onChange={(e) => {
+              const n = parseFloat(e.target.value);
+              if (!isNaN(n)) updateRule(index, { ...rule, value: n });
+            }}
+            className={inputClass}
+          />
+        );
+      case 'eventType':
+        return (
+          <select
+            value={rule.value}
+            onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+            className={inputClass}
+          >
+            {EVENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        );
+      case 'reviewStatus':
+        return (
+          <select
+            value={rule.value}
+            onChange={(e) => updateRule(index, { ...rule, value: e.target.value as 'reviewed' | 'automatic' })}
+            className={inputClass}
+          >
+            <option value="reviewed">যাচাইকৃত</option>
+            <option value="automatic">স্বয়ংক্রিয়</option>
+          </select>
+        );
+      case 'minMmi':
+        return (
+          <select
+            value={rule.value}
+            onChange={(e) => updateRule(index, { ...rule, value: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {MMI_LEVELS.map(level => <option key={level} value={level}>{formatMmi(level)}</option>)}
+          </select>
+        );
+      case 'tsunami':
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex bg-slate-100 p-1 rounded-lg">
+        {(['all', 'any'] as const).map(combinator => (
+          <button
+            key={combinator}
+            onClick={() => onChange({ ...value, combinator })}
+            className={`flex-1 py-1 text-xs font-semibold rounded-md transition-all ${
+              value.combinator === combinator
+                ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black/5'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {combinator === 'all' ? 'সবগুলো শর্ত (AND)' : 'যেকোনো একটি (OR)'}
+          </button>
+        ))}
+      </div>
+
+      {value.rules.length === 0 && (
+        <p className="text-[11px] text-slate-400 text-center">কোনো শর্ত নেই — এলাকার সব ভূমিকম্পে অ্যালার্ট</p>
+      )}
+
+      {value.rules.map((rule, index) => (
+        <div key={rule.kind} className="flex items-center justify-between bg-slate-50 px-2 py-1.5 rounded-lg border border-slate-100">
+          <span className="text-xs text-slate-700">{RULE_LABELS[rule.kind]}</span>
+          <div className="flex items-center gap-1">
+            {renderInput(rule, index)}
+            <button onClick={() => removeRule(index)} className="p-1 text-slate-400 hover:text-rose-500">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {unusedKinds.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Plus size={14} className="text-blue-600" />
+          <select
+            value=""
+            onChange={(e) => {
+              if (!e.target.value) return;
+              onChange({ ...value, rules: [...value.rules, createRule(e.target.value as AlertRuleKind)] });
+            }}
+            className="flex-1 p-1 border border-slate-300 rounded text-xs bg-white text-slate-600"
+          >
+            <option value="">শর্ত যোগ করুন...</option>
+            {unusedKinds.map(kind => <option key={kind} value={kind}>{RULE_LABELS[kind]}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZoneRuleEditor;
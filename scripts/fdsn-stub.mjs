@@ -0,0 +1,159 @@
+// Local stand-in for an FDSN event service. Answers
+// /fdsnws/event/1/query with canned GeoJSON: a fixed, made-up catalog of
+// events in and around Bangladesh over the last 90 days, newest first.
+//
+//   node scripts/fdsn-stub.mjs          listen on FDSN_PORT (default 8790)
+//   FDSN_EVENTS=50 node scripts/fdsn-stub.mjs
+//                                       serve 50 events instead of 1200
+//
+// Set FDSN_EVENT_URL=http://localhost:8790/fdsnws/event/1/query before
+// starting the app. Time, magnitude, depth, box and radius filters are
+// applied, `offset`/`limit` page through the result, and an empty page
+// answers 204 like a real FDSN server.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.FDSN_PORT || 8790);
+const EVENT_COUNT = Number(process.env.FDSN_EVENTS || 1200);
+const QUERY_PATH = '/fdsnws/event/1/query';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KM_PER_DEGREE = 111.195;
+
+// Seeded so every run serves the same catalog and paging stays stable
+let seed = 42;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const now = Date.now();
+
+const createEvent = (i) => {
+  const code = `stub${String(i).padStart(5, '0')}`;
+  const lat = +(19 + random() * 9).toFixed(3);
+  const lon = +(87 + random() * 7).toFixed(3);
+  const depth = +(5 + random() * 95).toFixed(1);
+  // Mostly small events, with the occasional large one
+  const mag = +(2.5 + (-Math.log(1 - random()) / 2)).toFixed(1);
+  const time = now - Math.floor(random() * 90 * DAY_MS);
+  return {
+    type: 'Feature',
+    id: code,
+    geometry: { type: 'Point', coordinates: [lon, lat, depth] },
+    properties: {
+      mag,
+      place: `${Math.round(random() * 80)} km of Stub Region ${i % 12 + 1}`,
+      time,
+      updated: time + 10 * 60 * 1000,
+      url: `http://localhost:${PORT}/event/${code}`,
+      detail: `http://localhost:${PORT}${QUERY_PATH}?eventid=${code}&format=geojson`,
+      status: 'reviewed',
+      tsunami: 0,
+      sig: Math.round(mag * 100),
+      net: 'stub',
+      code,
+      ids: `,${code},`,
+      sources: ',stub,',
+      types: ',origin,',
+      nst: null,
+      dmin: null,
+      rms: null,
+      gap: null,
+      magType: 'mb',
+      type: 'earthquake',
+      title: `M ${mag} - Stub Region ${i % 12 + 1}`,
+    },
+  };
+};
+
+const CATALOG = Array.from({ length: EVENT_COUNT }, (_, i) => createEvent(i))
+  .sort((a, b) => b.properties.time - a.properties.time);
+
+const toRadians = (deg) => deg * Math.PI / 180;
+
+// Great-circle distance in degrees
+const angularDistance = (lat1, lon1, lat2, lon2) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * Math.asin(Math.sqrt(h)) * 180 / Math.PI;
+};
+
+const number = (params, name) => params.has(name) ? Number(params.get(name)) : undefined;
+
+const matches = (params) => {
+  const start = params.has('starttime') ? Date.parse(params.get('starttime')) : -Infinity;
+  const end = params.has('endtime') ? Date.parse(params.get('endtime')) : Infinity;
+  const minMag = number(params, 'minmagnitude') ?? -Infinity;
+  const maxMag = number(params, 'maxmagnitude') ?? Infinity;
+  const minDepth = number(params, 'mindepth') ?? -Infinity;
+  const maxDepth = number(params, 'maxdepth') ?? Infinity;
+  const minLat = number(params, 'minlatitude') ?? -90;
+  const maxLat = number(params, 'maxlatitude') ?? 90;
+  const minLon = number(params, 'minlongitude') ?? -180;
+  const maxLon = number(params, 'maxlongitude') ?? 180;
+  const latitude = number(params, 'latitude');
+  const longitude = number(params, 'longitude');
+  const maxRadius = number(params, 'maxradius') ?? 180;
+
+  return (event) => {
+    const [lon, lat, depth] = event.geometry.coordinates;
+    const { time, mag } = event.properties;
+    return time >= start && time <= end
+      && mag >= minMag && mag <= maxMag
+      && depth >= minDepth && depth <= maxDepth
+      && lat >= minLat && lat <= maxLat && lon >= minLon && lon <= maxLon
+      && (latitude === undefined || longitude === undefined || angularDistance(latitude, longitude, lat, lon) <= maxRadius);
+  };
+};
+
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { ...CORS_HEADERS, 'Access-Control-Allow-Headers': '*' });
+    return res.end();
+  }
+  if (url.pathname !== QUERY_PATH) {
+    res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+    return res.end(`Only ${QUERY_PATH} is served`);
+  }
+
+  const params = url.searchParams;
+  const format = params.get('format') ?? 'geojson';
+  if (format !== 'geojson') {
+    res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+    return res.end('Only format=geojson is supported');
+  }
+
+  // FDSN offsets are 1-based
+  const offset = Math.max(1, number(params, 'offset') ?? 1);
+  const limit = Math.max(1, number(params, 'limit') ?? 20000);
+  const found = CATALOG.filter(matches(params));
+  const page = found.slice(offset - 1, offset - 1 + limit);
+  console.log(`[${new Date().toISOString()}] ${found.length} match(es), returning ${page.length} from offset ${offset}`);
+
+  if (page.length === 0) {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    type: 'FeatureCollection',
+    metadata: {
+      generated: Date.now(),
+      url: url.href,
+      title: 'FDSN stub',
+      status: 200,
+      api: '1.0',
+      count: page.length,
+    },
+    features: page,
+  }));
+});
+
+server.listen(PORT, () => {
+  console.log(`FDSN event stub on http://localhost:${PORT}${QUERY_PATH} (${CATALOG.length} events)`);
+});
@@ -0,0 +1,144 @@
+// Local Web Push stand-in for development. Stores subscriptions in memory and
+// sends encrypted (RFC 8291, aes128gcm) pushes signed with a VAPID key.
+//
+//   node scripts/push-server.mjs            start on PUSH_PORT (default 8787)
+//   curl -X POST localhost:8787/send -d '{"title":"...","body":"...","quakeId":"..."}'
+//
+// A VAPID key pair is generated into .vapid.json on first run; put the printed
+// public key into VAPID_PUBLIC_KEY and http://localhost:8787 into PUSH_SERVER_URL.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PUSH_PORT || 8787);
+const KEY_FILE = new URL('../.vapid.json', import.meta.url);
+const SUBJECT = process.env.VAPID_SUBJECT || 'mailto:dev@localhost';
+
+const b64url = (buf) => Buffer.from(buf).toString('base64url');
+
+const loadVapidKeys = () => {
+  if (fs.existsSync(KEY_FILE)) return JSON.parse(fs.readFileSync(KEY_FILE, 'utf8'));
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const keys = { jwk, publicKey: b64url(Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x, 'base64url'), Buffer.from(jwk.y, 'base64url')])) };
+  fs.writeFileSync(KEY_FILE, JSON.stringify(keys, null, 2));
+  return keys;
+};
+
+const vapid = loadVapidKeys();
+const vapidKey = crypto.createPrivateKey({ key: vapid.jwk, format: 'jwk' });
+
+const vapidHeader = (endpoint) => {
+  const header = b64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = b64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: SUBJECT,
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key: vapidKey, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${b64url(signature)}, k=${vapid.publicKey}`;
+};
+
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+const encrypt = (subscription, payload) => {
+  const uaPublic = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const asPublic = ecdh.generateKeys();
+  const shared = ecdh.computeSecret(uaPublic);
+
+  const prkKey = hmac(authSecret, shared);
+  const ikm = hmac(prkKey, Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic, Buffer.from([1])]));
+
+  const salt = crypto.randomBytes(16);
+  const prk = hmac(salt, ikm);
+  const cek = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 marks the last (and only) record
+  const body = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(4096);
+  return Buffer.concat([salt, recordSize, Buffer.from([asPublic.length]), asPublic, body]);
+};
+
+// endpoint -> { subscription, zones, minAlertMag }
+const subscribers = new Map();
+
+const sendPush = async (subscription, payload) => {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: '3600',
+      Urgency: 'high',
+      Authorization: vapidHeader(subscription.endpoint),
+    },
+    body: encrypt(subscription, JSON.stringify(payload)),
+  });
+  // Gone or not found: the browser dropped the subscription
+  if (response.status === 404 || response.status === 410) subscribers.delete(subscription.endpoint);
+  return response.status;
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return res.end();
+
+  const reply = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  try {
+    if (req.method === 'POST' && req.url === '/subscribe') {
+      const { subscription, zones = [], minAlertMag } = await readBody(req);
+      if (!subscription?.endpoint || !subscription.keys) return reply(400, { error: 'subscription required' });
+      subscribers.set(subscription.endpoint, { subscription, zones, minAlertMag });
+      return reply(201, { count: subscribers.size });
+    }
+
+    if (req.method === 'POST' && req.url === '/unsubscribe') {
+      const { endpoint } = await readBody(req);
+      subscribers.delete(endpoint);
+      return reply(200, { count: subscribers.size });
+    }
+
+    if (req.method === 'POST' && req.url === '/send') {
+      const payload = await readBody(req);
+      const results = await Promise.all(
+        [...subscribers.values()].map(({ subscription }) => sendPush(subscription, payload).catch((e) => String(e)))
+      );
+      return reply(200, { sent: results });
+    }
+
+    reply(404, { error: 'not found' });
+  } catch (e) {
+    reply(400, { error: String(e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Push server on http://localhost:${PORT}`);
+  console.log(`VAPID_PUBLIC_KEY=${vapid.publicKey}`);
+});
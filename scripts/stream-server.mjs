@@ -0,0 +1,114 @@
+// Local stand-in for the EMSC seismicportal push stream. Speaks just enough
+// WebSocket (RFC 6455, unmasked text frames from server to client) to send
+// `{ action, data }` messages shaped like seismicportal's.
+//
+//   node scripts/stream-server.mjs          listen on STREAM_PORT (default 8789)
+//   STREAM_INTERVAL=5 node scripts/stream-server.mjs
+//                                           send an event every 5 seconds (default 20)
+//
+// Set QUAKE_STREAM_URL=ws://localhost:8789 before starting the app. Every
+// third message revises the previous event, to exercise `update` handling.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.STREAM_PORT || 8789);
+const INTERVAL_MS = Number(process.env.STREAM_INTERVAL || 20) * 1000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const clients = new Set();
+
+const frame = (text) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x81, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x81, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Random event in and around Bangladesh, in EMSC's property names
+const createEvent = () => {
+  const unid = `20${Date.now()}`;
+  const lat = +(20.5 + Math.random() * 6).toFixed(3);
+  const lon = +(88 + Math.random() * 5).toFixed(3);
+  const depth = +(5 + Math.random() * 60).toFixed(1);
+  return {
+    type: 'Feature',
+    id: unid,
+    geometry: { type: 'Point', coordinates: [lon, lat, -depth] },
+    properties: {
+      unid,
+      lat,
+      lon,
+      depth,
+      mag: +(2.5 + Math.random() * 3.5).toFixed(1),
+      magtype: 'mb',
+      time: new Date().toISOString(),
+      lastupdate: new Date().toISOString(),
+      flynn_region: 'BANGLADESH',
+      auth: 'EMSC',
+    },
+  };
+};
+
+let count = 0;
+let last = null;
+
+const broadcast = () => {
+  count++;
+  let message;
+  if (last && count % 3 === 0) {
+    last.properties.mag = +(last.properties.mag + 0.3).toFixed(1);
+    last.properties.lastupdate = new Date().toISOString();
+    message = { action: 'update', data: last };
+  } else {
+    last = createEvent();
+    message = { action: 'create', data: last };
+  }
+  console.log(`[${new Date().toISOString()}] ${message.action} M${message.data.properties.mag} -> ${clients.size} client(s)`);
+  const bytes = frame(JSON.stringify(message));
+  clients.forEach(socket => socket.write(bytes));
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket only');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) return socket.destroy();
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+  clients.add(socket);
+  console.log(`Client connected (${clients.size})`);
+
+  // Client frames are ignored except close (opcode 8)
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]));
+  });
+  socket.on('close', () => clients.delete(socket));
+  socket.on('error', () => clients.delete(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Quake stream stand-in on ws://localhost:${PORT}`);
+  setInterval(broadcast, INTERVAL_MS);
+});
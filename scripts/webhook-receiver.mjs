@@ -0,0 +1,49 @@
+// Local webhook receiver for development. Logs every request it gets and
+// answers 200, so outgoing alert webhooks can be tried without a real chat
+// or PA system.
+//
+//   node scripts/webhook-receiver.mjs          listen on WEBHOOK_PORT (default 8788)
+//   WEBHOOK_FAIL=2 node scripts/webhook-receiver.mjs
+//                                              answer 503 to the first 2 requests, to watch retries
+//
+// Point a webhook at http://localhost:8788/ (any path works).
+
+import http from 'node:http';
+
+const PORT = Number(process.env.WEBHOOK_PORT || 8788);
+let failuresLeft = Number(process.env.WEBHOOK_FAIL || 0);
+
+const server = http.createServer((req, res) => {
+  // Browsers preflight JSON POSTs from the app's origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') return res.end();
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const type = req.headers['content-type'] || '';
+    let printed = body;
+    if (type.startsWith('application/json')) {
+      try {
+        printed = JSON.stringify(JSON.parse(body), null, 2);
+      } catch (e) {
+        printed = `${body}\n(invalid JSON: ${e.message})`;
+      }
+    }
+    console.log(`\n[${new Date().toISOString()}] ${req.method} ${req.url} (${type})\n${printed}`);
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(503);
+      return res.end('try again');
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver on http://localhost:${PORT}`);
+});
@@ -18,14 +18,14 @@ self.addEventListener('install', (event) => {
 });
 
 self.addEventListener('fetch', (event) => {
-  // For API requests (USGS, Gemini), go Network First
-  if (event.request.url.includes('earthquake.usgs.gov') || event.request.url.includes('generativelanguage.googleapis.com')) {
+  // For API requests (earthquake agencies, Gemini), go Network First
+  const API_HOSTS = ['earthquake.usgs.gov', 'seismicportal.eu', 'geofon.gfz-potsdam.de', 'generativelanguage.googleapis.com'];
+  if (API_HOSTS.some(host => event.request.url.includes(host))) {
     event.respondWith(
       fetch(event.request)
-        .catch(() => {
-          // Optional: Return cached API response if available/implemented
-          return new Response(JSON.stringify({ error: "Offline" }), { headers: { 'Content-Type': 'application/json' } });
-        })
+        // Fail like a real network error; the app keeps its own last-good
+        // copy and marks it as stale, which a fake JSON body would break
+        .catch(() => Response.error())
     );
     return;
   }
@@ -50,4 +50,41 @@ self.addEventListener('activate', (event) => {
       );
     })
   );
-});
\ No newline at end of file
+});
+
+// Web Push: the payload carries the same fields the app uses for in-page notifications
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (e) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'ভূমিকম্প অ্যালার্ট', {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: 'https://cdn-icons-png.flaticon.com/512/1684/1684426.png',
+      data: { quakeId: payload.quakeId },
+    })
+  );
+});
+
+// Focus an open tab on the event, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const quakeId = event.notification.data && event.notification.data.quakeId;
+  const url = quakeId ? `./?event=${encodeURIComponent(quakeId)}` : './';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) {
+        client.postMessage({ type: 'open-event', quakeId });
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
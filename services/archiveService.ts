@@ -0,0 +1,219 @@
+import { ArchiveQuery, ArchiveStats, CoverageSpan, EarthquakeData, EarthquakeFeature } from '../types';
+import { calculateDistance } from '../utils/geoUtils';
+import { addCoverage, BASELINE_MS } from '../utils/rateMonitor';
+
+const DB_NAME = 'quake-archive';
+const DB_VERSION = 1;
+const STORE = 'events';
+
+// 0 keeps everything
+export const DEFAULT_RETENTION_DAYS = 365;
+export const RETENTION_OPTIONS = [90, 365, 1825, 0];
+
+// Flat copies of the fields we index, stored next to the original feature
+interface ArchiveRecord {
+  id: string;
+  time: number;
+  mag: number;
+  lat: number;
+  lng: number;
+  savedAt: number;
+  feature: EarthquakeFeature;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openArchive = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('time', 'time');
+        store.createIndex('mag', 'mag');
+        store.createIndex('location', ['lat', 'lng']);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Resolves when the transaction commits, not when the last request succeeds
+const complete = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const toRecord = (feature: EarthquakeFeature, now: number): ArchiveRecord => ({
+  id: feature.id,
+  time: feature.properties.time,
+  mag: feature.properties.mag,
+  lat: feature.geometry.coordinates[1],
+  lng: feature.geometry.coordinates[0],
+  savedAt: now,
+  feature,
+});
+
+const inArea = (record: ArchiveRecord, area: ArchiveQuery['area']): boolean => {
+  if (!area) return true;
+  if (area.kind === 'bbox') {
+    return record.lat >= area.minLat && record.lat <= area.maxLat
+      && record.lng >= area.minLng && record.lng <= area.maxLng;
+  }
+  return calculateDistance(area.lat, area.lng, record.lat, record.lng) <= area.radiusKm;
+};
+
+/**
+ * Writes events to the archive, replacing older versions of the same event.
+ * A merged event also replaces the records of the agency solutions it absorbed.
+ * Imported catalog events are not archived; they already live in their dataset.
+ * Drill events are not real and never are.
+ */
+export const archiveEvents = async (features: EarthquakeFeature[]): Promise<void> => {
+  const live = features.filter(f => !f.datasetId && !f.isDrill);
+  if (live.length === 0) return;
+
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const now = Date.now();
+
+  live.forEach(feature => {
+    feature.reports?.forEach(report => {
+      if (report.eventId !== feature.id) store.delete(report.eventId);
+    });
+    const request = store.get(feature.id);
+    request.onsuccess = () => {
+      const existing: ArchiveRecord | undefined = request.result;
+      // Never let a stale poll overwrite a newer revision
+      if (existing && existing.feature.properties.updated > feature.properties.updated) return;
+      store.put(toRecord(feature, now));
+    };
+  });
+
+  return complete(tx);
+};
+
+/**
+ * Reads archived events, newest first. The time index narrows the scan and
+ * magnitude and area are filtered on the way out.
+ */
+export const queryArchive = async (query: ArchiveQuery): Promise<EarthquakeData> => {
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readonly');
+  const index = tx.objectStore(STORE).index('time');
+  const range = IDBKeyRange.bound(query.startTime, query.endTime ?? Date.now());
+
+  const features: EarthquakeFeature[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const record: ArchiveRecord = cursor.value;
+      if ((query.minMagnitude === undefined || record.mag >= query.minMagnitude) && inArea(record, query.area)) {
+        features.push(record.feature);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return {
+    type: 'FeatureCollection',
+    metadata: { generated: Date.now(), url: '', title: 'Archive', status: 200, api: '1.0', count: features.length },
+    features,
+  };
+};
+
+/**
+ * Deletes events older than the retention window. Returns how many were removed.
+ */
+export const pruneArchive = async (retentionDays: number, now: number = Date.now()): Promise<number> => {
+  if (retentionDays <= 0) return 0;
+
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  const index = tx.objectStore(STORE).index('time');
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+
+  let removed = 0;
+  const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    removed++;
+    cursor.continue();
+  };
+
+  await complete(tx);
+  return removed;
+};
+
+export const getArchiveStats = async (): Promise<ArchiveStats> => {
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readonly');
+  const store = tx.objectStore(STORE);
+  const index = store.index('time');
+
+  const read = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const [count, first, last] = await Promise.all([
+    read(store.count()),
+    read(index.openCursor(null, 'next')),
+    read(index.openCursor(null, 'prev')),
+  ]);
+
+  return {
+    count,
+    oldest: first ? (first.value as ArchiveRecord).time : null,
+    newest: last ? (last.value as ArchiveRecord).time : null,
+  };
+};
+
+const COVERAGE_KEY = 'archiveCoverage';
+
+export const getArchiveCoverage = (): CoverageSpan[] => {
+  const saved = localStorage.getItem(COVERAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+/**
+ * Notes that a complete feed for [start, end] was archived. Only the span the
+ * swarm baseline can use is kept.
+ */
+export const recordArchiveCoverage = (start: number, end: number): void => {
+  const spans = addCoverage(getArchiveCoverage(), [start, end], end - BASELINE_MS);
+  localStorage.setItem(COVERAGE_KEY, JSON.stringify(spans));
+};
+
+export const clearArchive = async (): Promise<void> => {
+  localStorage.removeItem(COVERAGE_KEY);
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  return complete(tx);
+};
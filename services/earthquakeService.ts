@@ -1,22 +1,170 @@
-import { EarthquakeData, TimePeriod } from '../types';
+import { EarthquakeData, EarthquakeFeature, FdsnQuery, FeedProviderId, TimePeriod } from '../types';
+import { PROVIDERS, PROVIDER_ORDER, DEFAULT_PROVIDERS, fetchOrThrow, readJson } from './feedProviders';
+import { toFeedError } from './feedErrors';
+import { CachedFeed, getCachedFeed, saveFeed } from './feedCache';
+import { validateFeatureCollection } from '../utils/featureValidation';
+import { mergeDuplicateEvents } from '../utils/quakeMerge';
 
-const URLS: Record<TimePeriod, string> = {
-  day: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson',
-  week: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_week.geojson',
-  month: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_month.geojson',
+const getFeedCacheKey = (period: TimePeriod, providerIds: FeedProviderId[]): string => {
+  return `${period}|${PROVIDER_ORDER.filter(id => providerIds.includes(id)).join(',')}`;
 };
 
-export const fetchEarthquakes = async (period: TimePeriod = 'day'): Promise<EarthquakeData> => {
+/**
+ * The last successful response for this period and agency selection, if any,
+ * so the UI can show it while a fresh request is in flight.
+ */
+export const getCachedEarthquakes = (
+  period: TimePeriod,
+  providerIds: FeedProviderId[] = DEFAULT_PROVIDERS
+): CachedFeed | null => {
+  return getCachedFeed(getFeedCacheKey(period, providerIds));
+};
+
+/**
+ * Fetches the selected agencies in parallel and merges events that several
+ * of them reported. A failing agency is skipped as long as at least one
+ * other agency answered.
+ */
+export const fetchEarthquakes = async (
+  period: TimePeriod = 'day',
+  providerIds: FeedProviderId[] = DEFAULT_PROVIDERS
+): Promise<EarthquakeData> => {
+  const getAvailable = (ids: FeedProviderId[]) => PROVIDER_ORDER
+    .filter(id => ids.includes(id))
+    .map(id => PROVIDERS[id])
+    .filter(p => p.isAvailable());
+
+  // A saved selection can name only agencies this build has no endpoint for (e.g. BMD alone)
+  let providers = getAvailable(providerIds);
+  if (providers.length === 0) {
+    console.warn(`None of ${providerIds.join(', ')} is available; falling back to the default agencies`);
+    providers = getAvailable(DEFAULT_PROVIDERS);
+  }
+
+  const results = await Promise.allSettled(providers.map(p => p.fetchFeatures(period)));
+
+  const features: EarthquakeFeature[] = [];
+  const failures: unknown[] = [];
+  let rejected = 0;
+  let repaired = 0;
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      features.push(...result.value.features);
+      rejected += result.value.rejected;
+      repaired += result.value.repaired;
+      if (result.value.rejected > 0) {
+        console.warn(`Dropped ${result.value.rejected} malformed events from ${providers[i].id}`);
+      }
+    } else {
+      console.error(`Failed to fetch earthquake data from ${providers[i].id}:`, result.reason);
+      failures.push(result.reason);
+    }
+  });
+
+  if (failures.length === providers.length) {
+    throw toFeedError(failures[0]);
+  }
+
+  const merged = mergeDuplicateEvents(features, PROVIDER_ORDER);
+
+  const data: EarthquakeData = {
+    type: 'FeatureCollection',
+    metadata: {
+      generated: Date.now(),
+      url: '',
+      title: providers.map(p => p.id.toUpperCase()).join(' + '),
+      status: 200,
+      api: '1.0',
+      count: merged.length,
+      rejected,
+      repaired,
+    },
+    features: merged,
+  };
+
+  saveFeed(getFeedCacheKey(period, providerIds), data);
+  return data;
+};
+
+// Custom queries go to USGS unless FDSN_EVENT_URL points them elsewhere (another agency or a local stub)
+export const FDSN_EVENT_URL = process.env.FDSN_EVENT_URL || 'https://earthquake.usgs.gov/fdsnws/event/1/query';
+
+export const FDSN_PAGE_SIZE = 500;
+
+// A full page means there may be more; records dropped by validation still count towards it
+export const isFullFdsnPage = (data: EarthquakeData, pageSize: number): boolean =>
+  data.features.length + (data.metadata.rejected ?? 0) >= pageSize;
+
+const KM_PER_DEGREE = 111.195;
+
+/**
+ * Builds an `fdsnws/event/1/query` URL. Radius searches are sent in degrees
+ * (`maxradius`) because that is the only unit every FDSN server understands.
+ */
+export const buildFdsnQueryUrl = (query: FdsnQuery, baseUrl: string = FDSN_EVENT_URL): string => {
+  const params = new URLSearchParams({
+    format: 'geojson',
+    orderby: 'time',
+    starttime: query.startTime,
+    limit: (query.limit ?? FDSN_PAGE_SIZE).toString(),
+    offset: (query.offset ?? 1).toString(),
+  });
+
+  if (query.endTime) params.set('endtime', query.endTime);
+  if (query.minMagnitude !== undefined) params.set('minmagnitude', query.minMagnitude.toString());
+  if (query.maxMagnitude !== undefined) params.set('maxmagnitude', query.maxMagnitude.toString());
+  if (query.minDepth !== undefined) params.set('mindepth', query.minDepth.toString());
+  if (query.maxDepth !== undefined) params.set('maxdepth', query.maxDepth.toString());
+
+  if (query.area?.kind === 'bbox') {
+    params.set('minlatitude', query.area.minLat.toString());
+    params.set('maxlatitude', query.area.maxLat.toString());
+    params.set('minlongitude', query.area.minLng.toString());
+    params.set('maxlongitude', query.area.maxLng.toString());
+  } else if (query.area?.kind === 'radius') {
+    params.set('latitude', query.area.lat.toString());
+    params.set('longitude', query.area.lng.toString());
+    params.set('maxradius', (query.area.radiusKm / KM_PER_DEGREE).toFixed(4));
+  }
+
+  return `${baseUrl}?${params}`;
+};
+
+/**
+ * Runs a custom FDSN event query. `baseUrl` can point at any FDSN service
+ * that answers `format=geojson`, including a local stub server.
+ */
+export const fetchFdsnEvents = async (query: FdsnQuery, baseUrl: string = FDSN_EVENT_URL): Promise<EarthquakeData> => {
   try {
-    const response = await fetch(URLS[period]);
-    if (!response.ok) {
-      throw new Error('Network response was not ok');
+    const response = await fetchOrThrow(buildFdsnQueryUrl(query, baseUrl));
+
+    // FDSN servers answer 204 when nothing matches
+    if (response.status === 204) {
+      return {
+        type: 'FeatureCollection',
+        metadata: { generated: Date.now(), url: response.url, title: 'FDSN', status: 204, api: '1.0', count: 0 },
+        features: [],
+      };
     }
-    const data: EarthquakeData = await response.json();
-    return data;
+
+    const result = validateFeatureCollection(await readJson(response));
+    return {
+      type: 'FeatureCollection',
+      metadata: {
+        generated: Date.now(),
+        url: response.url,
+        title: 'FDSN',
+        status: response.status,
+        api: '1.0',
+        count: result.features.length,
+        rejected: result.rejected,
+        repaired: result.repaired,
+      },
+      features: result.features,
+    };
   } catch (error) {
-    console.error("Failed to fetch earthquake data:", error);
-    throw error;
+    console.error("Failed to run FDSN query:", error);
+    throw toFeedError(error);
   }
 };
 
@@ -0,0 +1,189 @@
+import { EarthquakeFeature, EventDetail, NodalPlane, PagerAlertLevel, ProductFile } from '../types';
+import { fetchOrThrow, readJson } from './feedProviders';
+import { isObject } from '../utils/featureValidation';
+
+// Parsed details by event id and revision, so reopening an event is instant
+const detailCache = new Map<string, EventDetail>();
+// In-flight requests, so double clicks don't fetch twice
+const pendingRequests = new Map<string, Promise<EventDetail>>();
+
+// Product files worth linking to, by product type (matched against the content path)
+const FILE_PATTERNS: Record<string, RegExp> = {
+  'losspager': /(onepager\.pdf|alertecon\.png|alertfatal\.png)$/,
+  'shakemap': /(intensity\.jpg|pga\.jpg|pgv\.jpg|shape\.zip|\.kmz)$/,
+  'dyfi': /(_ciim\.jpg|_ciim_geo\.jpg|plot_atten\.jpg|dyfi_geo_10km\.geojson)$/,
+  'moment-tensor': /(beachball\.png|\.pdf)$/,
+};
+
+const MAX_FILES_PER_PRODUCT = 4;
+
+const num = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+};
+
+const text = (value: unknown): string => typeof value === 'string' ? value : '';
+
+// The parts of a USGS product we read
+interface Product {
+  properties: Record<string, unknown>;
+  contents: Record<string, unknown>;
+  source: string;
+  preferredWeight: number;
+}
+
+const toProduct = (value: unknown): Product | null => {
+  if (!isObject(value)) return null;
+  return {
+    properties: isObject(value.properties) ? value.properties : {},
+    contents: isObject(value.contents) ? value.contents : {},
+    source: text(value.source),
+    preferredWeight: num(value.preferredWeight) ?? 0,
+  };
+};
+
+// Products are listed most-preferred first by the USGS, but we sort to be safe
+const getPreferredProduct = (products: Record<string, unknown>, type: string): Product | null => {
+  const list = products[type];
+  if (!Array.isArray(list)) return null;
+  const parsed = list.map(toProduct).filter((p): p is Product => p !== null);
+  return parsed.sort((a, b) => b.preferredWeight - a.preferredWeight)[0] ?? null;
+};
+
+const getFiles = (product: Product, type: string): ProductFile[] => {
+  const pattern = FILE_PATTERNS[type];
+  if (!pattern) return [];
+
+  const files: ProductFile[] = [];
+  Object.entries(product.contents).forEach(([path, content]) => {
+    if (files.length >= MAX_FILES_PER_PRODUCT || !pattern.test(path)) return;
+    if (!isObject(content) || typeof content.url !== 'string') return;
+    files.push({
+      name: path.split('/').pop() || path,
+      url: content.url,
+      contentType: text(content.contentType),
+    });
+  });
+  return files;
+};
+
+const parseNodalPlanes = (props: Record<string, unknown>): NodalPlane[] => {
+  const planes: NodalPlane[] = [];
+  [1, 2].forEach(n => {
+    const strike = num(props[`nodal-plane-${n}-strike`]);
+    const dip = num(props[`nodal-plane-${n}-dip`]);
+    const rake = num(props[`nodal-plane-${n}-rake`] ?? props[`nodal-plane-${n}-slip`]);
+    if (strike !== null && dip !== null && rake !== null) {
+      planes.push({ strike, dip, rake });
+    }
+  });
+  return planes;
+};
+
+/**
+ * Turns the USGS detail GeoJSON into the subset of product data the app shows.
+ */
+export const parseEventDetail = (eventId: string, data: unknown): EventDetail => {
+  const properties = isObject(data) && isObject(data.properties) ? data.properties : {};
+  const products = isObject(properties.products) ? properties.products : {};
+  const detail: EventDetail = { eventId, fetchedAt: Date.now() };
+
+  const pager = getPreferredProduct(products, 'losspager');
+  if (pager) {
+    const level = text(pager.properties.alertlevel).toLowerCase();
+    detail.pager = {
+      alertLevel: ['green', 'yellow', 'orange', 'red'].includes(level) ? level as PagerAlertLevel : null,
+      maxMmi: num(pager.properties.maxmmi),
+      files: getFiles(pager, 'losspager'),
+    };
+  }
+
+  const shakemap = getPreferredProduct(products, 'shakemap');
+  if (shakemap) {
+    detail.shakemap = {
+      maxMmi: num(shakemap.properties.maxmmi),
+      maxPga: num(shakemap.properties.maxpga),
+      maxPgv: num(shakemap.properties.maxpgv),
+      files: getFiles(shakemap, 'shakemap'),
+    };
+  }
+
+  const dyfi = getPreferredProduct(products, 'dyfi');
+  if (dyfi) {
+    detail.dyfi = {
+      maxMmi: num(dyfi.properties.maxmmi),
+      responses: num(dyfi.properties['num-responses'] ?? dyfi.properties.numResp),
+      files: getFiles(dyfi, 'dyfi'),
+    };
+  }
+
+  const tensor = getPreferredProduct(products, 'moment-tensor');
+  if (tensor) {
+    const props = tensor.properties;
+    detail.momentTensor = {
+      magnitude: num(props['derived-magnitude']),
+      magnitudeType: text(props['derived-magnitude-type']),
+      scalarMoment: num(props['scalar-moment']),
+      percentDoubleCouple: num(props['percent-double-couple']),
+      depth: num(props['derived-depth']),
+      nodalPlanes: parseNodalPlanes(props),
+      source: tensor.source,
+      files: getFiles(tensor, 'moment-tensor'),
+    };
+  }
+
+  const origin = getPreferredProduct(products, 'origin');
+  if (origin) {
+    const props = origin.properties;
+    detail.origin = {
+      reviewStatus: text(props['review-status']),
+      stationsUsed: num(props['num-stations-used']),
+      standardError: num(props['standard-error']),
+      azimuthalGap: num(props['azimuthal-gap']),
+      source: origin.source,
+    };
+  }
+
+  return detail;
+};
+
+export const getCachedEventDetail = (quake: EarthquakeFeature): EventDetail | undefined => {
+  return detailCache.get(`${quake.id}@${quake.properties.updated}`);
+};
+
+/**
+ * Loads the detail GeoJSON for an event on demand. Results are cached for
+ * the session, keyed by the event's `updated` time so a revised event is
+ * fetched again.
+ */
+export const fetchEventDetail = async (quake: EarthquakeFeature): Promise<EventDetail> => {
+  const url = quake.properties.detail;
+  if (!url) {
+    throw new Error('Event has no detail endpoint');
+  }
+
+  const cacheKey = `${quake.id}@${quake.properties.updated}`;
+  const cached = detailCache.get(cacheKey);
+  if (cached) return cached;
+
+  const pending = pendingRequests.get(cacheKey);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const response = await fetchOrThrow(url);
+      const detail = parseEventDetail(quake.id, await readJson(response));
+      detailCache.set(cacheKey, detail);
+      return detail;
+    } catch (error) {
+      console.error("Failed to fetch event detail:", error);
+      throw error;
+    } finally {
+      pendingRequests.delete(cacheKey);
+    }
+  })();
+
+  pendingRequests.set(cacheKey, request);
+  return request;
+};
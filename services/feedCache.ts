@@ -0,0 +1,54 @@
+import { EarthquakeData } from '../types';
+
+const STORAGE_KEY = 'feedCache';
+// One entry per period/agency combination; older combinations are dropped first
+const MAX_ENTRIES = 3;
+
+export interface CachedFeed {
+  fetchedAt: number;
+  data: EarthquakeData;
+}
+
+let memoryCache: Map<string, CachedFeed> | null = null;
+
+// Lazily hydrated from localStorage so the first render can show the last good data
+const getCache = (): Map<string, CachedFeed> => {
+  if (memoryCache) return memoryCache;
+  memoryCache = new Map();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      Object.entries(JSON.parse(saved) as Record<string, CachedFeed>).forEach(([key, entry]) => {
+        memoryCache!.set(key, entry);
+      });
+    }
+  } catch (e) {
+    console.error("Failed to read feed cache", e);
+  }
+  return memoryCache;
+};
+
+const persist = (cache: Map<string, CachedFeed>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(cache)));
+  } catch (e) {
+    // Month-long feeds can exceed the storage quota; the in-memory copy still works
+    console.error("Failed to persist feed cache", e);
+  }
+};
+
+export const getCachedFeed = (key: string): CachedFeed | null => {
+  return getCache().get(key) || null;
+};
+
+export const saveFeed = (key: string, data: EarthquakeData, now: number = Date.now()) => {
+  const cache = getCache();
+  cache.delete(key);
+  cache.set(key, { fetchedAt: now, data });
+
+  // Map iteration follows insertion order, so the first keys are the oldest
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  persist(cache);
+};
@@ -0,0 +1,102 @@
+export type FeedErrorKind = 'offline' | 'timeout' | 'http' | 'parse' | 'schema' | 'unknown';
+
+/**
+ * Base class for everything that can go wrong while loading a feed. The
+ * `kind` lets the UI pick a specific message without string matching.
+ */
+export class FeedError extends Error {
+  readonly kind: FeedErrorKind;
+
+  constructor(kind: FeedErrorKind, message: string) {
+    super(message);
+    this.name = 'FeedError';
+    this.kind = kind;
+  }
+}
+
+// The request never reached the server (no connection, DNS, CORS)
+export class OfflineError extends FeedError {
+  constructor(message = 'Network unreachable') {
+    super('offline', message);
+    this.name = 'OfflineError';
+  }
+}
+
+export class TimeoutError extends FeedError {
+  constructor(url: string, timeoutMs: number) {
+    super('timeout', `Request to ${url} timed out after ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class HttpError extends FeedError {
+  readonly status: number;
+
+  constructor(status: number, url: string) {
+    super('http', `Request to ${url} failed with status ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// The body was not valid JSON (or whatever format was expected)
+export class ParseError extends FeedError {
+  constructor(message: string) {
+    super('parse', message);
+    this.name = 'ParseError';
+  }
+}
+
+// The body parsed but is not shaped like a feed
+export class SchemaError extends FeedError {
+  constructor(message: string) {
+    super('schema', message);
+    this.name = 'SchemaError';
+  }
+}
+
+// Worth another attempt: the same request may well succeed a moment later
+export const isRetryable = (error: FeedError): boolean => {
+  if (error.kind === 'offline' || error.kind === 'timeout') return true;
+  return error instanceof HttpError && (error.status >= 500 || error.status === 429);
+};
+
+// What fetch rejects with when the network is unreachable (Chrome, Firefox, Safari)
+const isNetworkTypeError = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+/**
+ * Maps any thrown value onto the taxonomy. Fetch rejects with a TypeError
+ * when the network is unreachable, so that is treated as offline. Anything
+ * else (e.g. a bug in a parser) is `unknown` rather than posing as HTTP.
+ */
+export const toFeedError = (error: unknown): FeedError => {
+  if (error instanceof FeedError) return error;
+  if (isNetworkTypeError(error) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new OfflineError(error instanceof Error ? error.message : undefined);
+  }
+  if (error instanceof SyntaxError) return new ParseError(error.message);
+  return new FeedError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+export const getFeedErrorMessage = (error: FeedError): string => {
+  switch (error.kind) {
+    case 'offline':
+      return 'ইন্টারনেট সংযোগ নেই বা সার্ভারে পৌঁছানো যাচ্ছে না।';
+    case 'timeout':
+      return 'সার্ভার সময়মতো সাড়া দেয়নি। সংযোগ ধীর হতে পারে।';
+    case 'http':
+      if (error instanceof HttpError) {
+        if (error.status === 429) return 'সার্ভারে অনেক বেশি অনুরোধ গেছে। কিছুক্ষণ পর আবার চেষ্টা করুন।';
+        if (error.status >= 500) return `তথ্য সার্ভারে সমস্যা হচ্ছে (${error.status})। পরে আবার চেষ্টা করুন।`;
+        return `তথ্য আনতে ব্যর্থ হয়েছে (${error.status})।`;
+      }
+      return 'তথ্য আনতে ব্যর্থ হয়েছে।';
+    case 'parse':
+      return 'সার্ভার থেকে অপঠনযোগ্য তথ্য এসেছে।';
+    case 'schema':
+      return 'সার্ভারের তথ্যের গঠন প্রত্যাশিত নয়।';
+    case 'unknown':
+      return 'তথ্য প্রক্রিয়া করতে অপ্রত্যাশিত সমস্যা হয়েছে।';
+  }
+};
@@ -0,0 +1,354 @@
+import { EarthquakeFeature, FeedProviderId, SourceReport, TimePeriod } from '../types';
+import { FeedError, HttpError, OfflineError, ParseError, SchemaError, TimeoutError, isRetryable } from './feedErrors';
+import { isObject, validateFeatureCollection, validateFeatures, ValidationResult } from '../utils/featureValidation';
+
+/**
+ * A source of earthquake events. Each provider talks to one agency and
+ * normalizes whatever that agency returns into `EarthquakeFeature` objects,
+ * so the rest of the app never has to know where an event came from.
+ */
+export interface EarthquakeProvider {
+  id: FeedProviderId;
+  name: string; // Display label (Bangla)
+  isAvailable: () => boolean;
+  fetchFeatures: (period: TimePeriod) => Promise<ValidationResult>;
+}
+
+const USGS_URLS: Record<TimePeriod, string> = {
+  day: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson',
+  week: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_week.geojson',
+  month: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_month.geojson',
+};
+
+const EMSC_QUERY_URL = 'https://www.seismicportal.eu/fdsnws/event/1/query';
+const GFZ_QUERY_URL = 'https://geofon.gfz-potsdam.de/fdsnws/event/1/query';
+
+// Bangladesh Meteorological Department has no public endpoint; deployments point this at their own mirror
+const BMD_FEED_URL = process.env.BMD_FEED_URL || '';
+
+export const PERIOD_MS: Record<TimePeriod, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Same lower bound as the USGS 2.5+ summary feeds so all agencies are comparable
+const MIN_FEED_MAG = 2.5;
+
+const getStartTime = (period: TimePeriod): string => {
+  return new Date(Date.now() - PERIOD_MS[period]).toISOString().slice(0, 19);
+};
+
+// FDSN services return UTC timestamps without a zone suffix
+const parseUtcTime = (value: string): number => {
+  const hasZone = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value);
+  return new Date(hasZone ? value : `${value}Z`).getTime();
+};
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+};
+
+const toText = (value: unknown): string => typeof value === 'string' ? value : '';
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_MS = 1000;
+
+interface FetchOptions {
+  timeoutMs?: number;
+  retries?: number;
+  init?: RequestInit; // Method, headers and body for non-GET requests
+  onRetry?: (attempt: number, error: FeedError) => void;
+}
+
+const fetchOnce = async (url: string, timeoutMs: number, init?: RequestInit): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new TimeoutError(url, timeoutMs);
+    throw new OfflineError(error instanceof Error ? error.message : undefined);
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!response.ok) {
+    throw new HttpError(response.status, url);
+  }
+  return response;
+};
+
+/**
+ * `fetch` that throws from the feed error taxonomy: `OfflineError` when the
+ * request never got an answer, `TimeoutError` when it took too long and
+ * `HttpError` for non-2xx responses. Transient failures are retried with
+ * exponential backoff and jitter.
+ */
+export const fetchOrThrow = async (
+  url: string,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, init, onRetry }: FetchOptions = {}
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, timeoutMs, init);
+    } catch (error) {
+      const feedError = error as FeedError;
+      // No point retrying while the browser knows it is offline
+      const offline = feedError.kind === 'offline' && typeof navigator !== 'undefined' && !navigator.onLine;
+      if (attempt >= retries || offline || !isRetryable(feedError)) throw error;
+      onRetry?.(attempt + 1, feedError);
+
+      const delay = RETRY_BASE_MS * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, delay / 2 + Math.random() * delay / 2));
+    }
+  }
+};
+
+export const readJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new ParseError(`Invalid JSON from ${response.url}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export interface FeatureInput {
+  id: string;
+  lat: number;
+  lng: number;
+  depth: number;
+  mag: number;
+  magType: string;
+  time: number;
+  updated?: number;
+  place: string;
+  url: string;
+  net: string;
+  type?: string;
+}
+
+/**
+ * Builds a complete `EarthquakeFeature` from the handful of fields that every
+ * agency provides, filling USGS-only properties with neutral defaults.
+ * Features without a provider (e.g. imported catalogs) carry no report.
+ */
+export const createFeature = (input: FeatureInput, provider?: FeedProviderId): EarthquakeFeature => {
+  const feature: EarthquakeFeature = {
+    type: 'Feature',
+    id: input.id,
+    properties: {
+      mag: input.mag,
+      place: input.place,
+      time: input.time,
+      updated: input.updated ?? input.time,
+      url: input.url,
+      detail: '',
+      status: 'automatic',
+      tsunami: 0,
+      sig: 0,
+      net: input.net,
+      code: input.id,
+      ids: `,${input.id},`,
+      sources: `,${input.net},`,
+      types: '',
+      nst: null,
+      dmin: null,
+      rms: null,
+      gap: null,
+      magType: input.magType,
+      type: input.type || 'earthquake',
+      title: `M ${input.mag.toFixed(1)} - ${input.place}`,
+      felt: null,
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [input.lng, input.lat, input.depth],
+    },
+  };
+
+  if (provider) {
+    const report: SourceReport = {
+      provider,
+      eventId: input.id,
+      mag: input.mag,
+      magType: input.magType,
+      time: input.time,
+      url: input.url,
+    };
+    feature.reports = [report];
+  }
+
+  return feature;
+};
+
+// Attaches the provider report to a feature that is already in USGS shape
+const withReport = (provider: FeedProviderId, feature: EarthquakeFeature): EarthquakeFeature => ({
+  ...feature,
+  reports: [{
+    provider,
+    eventId: feature.id,
+    mag: feature.properties.mag,
+    magType: feature.properties.magType,
+    time: feature.properties.time,
+    url: feature.properties.url,
+  }],
+});
+
+const usgsProvider: EarthquakeProvider = {
+  id: 'usgs',
+  name: 'USGS (যুক্তরাষ্ট্র)',
+  isAvailable: () => true,
+  fetchFeatures: async (period) => {
+    const response = await fetchOrThrow(USGS_URLS[period]);
+    const result = validateFeatureCollection(await readJson(response));
+    return { ...result, features: result.features.map(f => withReport('usgs', f)) };
+  },
+};
+
+/**
+ * Normalizes one feature in EMSC's GeoJSON flavour, as returned by both the
+ * FDSN `format=json` service and the seismicportal WebSocket. Returns null
+ * when position or magnitude is missing, so the caller can count it as
+ * rejected instead of plotting an M0.0 event at 0°, 0°.
+ */
+export const normalizeEmscFeature = (f: unknown): EarthquakeFeature | null => {
+  if (!isObject(f) || !isObject(f.properties)) return null;
+  const p = f.properties;
+  const lat = toNumberOrNull(p.lat);
+  const lng = toNumberOrNull(p.lon);
+  const mag = toNumberOrNull(p.mag);
+  if (lat === null || lng === null || mag === null) return null;
+
+  const id = toText(p.unid) || String(f.id ?? '');
+  const lastUpdate = toText(p.lastupdate);
+  return createFeature({
+    id: `emsc_${id}`,
+    lat,
+    lng,
+    depth: Math.abs(toNumberOrNull(p.depth) ?? 0),
+    mag,
+    magType: toText(p.magtype).toLowerCase(),
+    time: parseUtcTime(toText(p.time)),
+    updated: lastUpdate ? parseUtcTime(lastUpdate) : undefined,
+    place: toText(p.flynn_region),
+    url: `https://www.seismicportal.eu/eventdetails.html?unid=${id}`,
+    net: (toText(p.auth) || 'emsc').toLowerCase(),
+  }, 'emsc');
+};
+
+// EMSC's FDSN service answers `format=json` with its own GeoJSON flavour
+const emscProvider: EarthquakeProvider = {
+  id: 'emsc',
+  name: 'EMSC (ইউরোপ)',
+  isAvailable: () => true,
+  fetchFeatures: async (period) => {
+    const params = new URLSearchParams({
+      format: 'json',
+      starttime: getStartTime(period),
+      minmag: MIN_FEED_MAG.toString(),
+      limit: '5000',
+    });
+    const response = await fetchOrThrow(`${EMSC_QUERY_URL}?${params}`);
+    const data = await readJson(response);
+    if (!isObject(data) || !Array.isArray(data.features)) {
+      throw new SchemaError('EMSC response has no features');
+    }
+
+    // Features that can't be normalized are counted as rejected
+    const usable = data.features
+      .map(normalizeEmscFeature)
+      .filter((f): f is EarthquakeFeature => f !== null);
+    const result = validateFeatures(usable);
+    return { ...result, rejected: result.rejected + data.features.length - usable.length };
+  },
+};
+
+// GEOFON only speaks FDSN text and QuakeML, so we parse the pipe-separated text format
+const gfzProvider: EarthquakeProvider = {
+  id: 'gfz',
+  name: 'GFZ GEOFON (জার্মানি)',
+  isAvailable: () => true,
+  fetchFeatures: async (period) => {
+    const params = new URLSearchParams({
+      format: 'text',
+      starttime: getStartTime(period),
+      minmagnitude: MIN_FEED_MAG.toString(),
+    });
+    const response = await fetchOrThrow(`${GFZ_QUERY_URL}?${params}`);
+    const text = await response.text();
+    return validateFeatures(parseFdsnText(text, 'gfz', id => `https://geofon.gfz-potsdam.de/eqinfo/event.php?id=${id}`));
+  },
+};
+
+// The BMD mirror is expected to serve USGS-style GeoJSON
+const bmdProvider: EarthquakeProvider = {
+  id: 'bmd',
+  name: 'আবহাওয়া অধিদপ্তর (BMD)',
+  isAvailable: () => BMD_FEED_URL !== '',
+  fetchFeatures: async (period) => {
+    const response = await fetchOrThrow(BMD_FEED_URL);
+    const result = validateFeatureCollection(await readJson(response));
+    const since = Date.now() - PERIOD_MS[period];
+    return {
+      ...result,
+      features: result.features
+        .filter(f => f.properties.time >= since)
+        .map(f => withReport('bmd', { ...f, id: `bmd_${f.id}` })),
+    };
+  },
+};
+
+/**
+ * Parses the FDSN event `format=text` response:
+ * `#EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|MagAuthor|EventLocationName[|EventType]`
+ */
+export const parseFdsnText = (
+  text: string,
+  provider: FeedProviderId,
+  buildUrl: (eventId: string) => string
+): EarthquakeFeature[] => {
+  const features: EarthquakeFeature[] = [];
+
+  text.split('\n').forEach(line => {
+    if (!line.trim() || line.startsWith('#')) return;
+    const cols = line.split('|').map(c => c.trim());
+    if (cols.length < 13) return;
+
+    const mag = toNumberOrNull(cols[10]);
+    const lat = toNumberOrNull(cols[2]);
+    const lng = toNumberOrNull(cols[3]);
+    if (mag === null || lat === null || lng === null) return;
+
+    features.push(createFeature({
+      id: `${provider}_${cols[0]}`,
+      lat,
+      lng,
+      depth: toNumberOrNull(cols[4]) ?? 0,
+      mag,
+      magType: cols[9].toLowerCase(),
+      time: parseUtcTime(cols[1]),
+      place: cols[12],
+      url: buildUrl(cols[0]),
+      net: (cols[5] || provider).toLowerCase(),
+      type: cols[13] || undefined,
+    }, provider));
+  });
+
+  return features;
+};
+
+export const PROVIDERS: Record<FeedProviderId, EarthquakeProvider> = {
+  usgs: usgsProvider,
+  emsc: emscProvider,
+  gfz: gfzProvider,
+  bmd: bmdProvider,
+};
+
+// Order doubles as merge priority: the first agency's solution becomes the primary one
+export const PROVIDER_ORDER: FeedProviderId[] = ['usgs', 'emsc', 'gfz', 'bmd'];
+
+export const DEFAULT_PROVIDERS: FeedProviderId[] = ['usgs'];
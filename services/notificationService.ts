@@ -0,0 +1,91 @@
+import { AlertNotification, AlertZone } from '../types';
+
+export const PUSH_SERVER_URL = process.env.PUSH_SERVER_URL || '';
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || '';
+// Same image as the manifest icon
+const NOTIFICATION_ICON = 'https://cdn-icons-png.flaticon.com/512/1684/1684426.png';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export const getNotificationPermission = (): NotificationPermissionState => {
+  if (!('Notification' in window) || !('serviceWorker' in navigator)) return 'unsupported';
+  return Notification.permission;
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+};
+
+export const isPushAvailable = (): boolean => {
+  return Boolean(PUSH_SERVER_URL && VAPID_PUBLIC_KEY) && 'PushManager' in window;
+};
+
+// Title and body for an alert's OS notification
+export const buildAlertNotification = (alert: AlertNotification, distanceKm: number | null) => {
+  const title = alert.kind === 'swarm' && alert.swarm
+    ? `অস্বাভাবিক কম্পন প্রবণতা: ${alert.zoneName}`
+    : `${alert.isDrill ? '[মহড়া] ' : ''}${alert.mag.toFixed(1)} মাত্রার ভূমিকম্প: ${alert.zoneName}`;
+  const distance = distanceKm !== null ? ` · আপনার থেকে ${Math.round(distanceKm)} কিমি` : '';
+  const body = alert.kind === 'swarm' && alert.swarm
+    ? `গত ${alert.swarm.windowHours} ঘণ্টায় ${alert.swarm.count} টি ভূমিকম্প${distance}`
+    : `${alert.quakePlace}${distance}`;
+  return { title, body, tag: alert.id, quakeId: alert.quakeId };
+};
+
+/**
+ * Shows an OS-level notification through the service worker, so it works
+ * while the tab is in the background and clicks are routed back to the app.
+ */
+export const showAlertNotification = async (alert: AlertNotification, distanceKm: number | null, silent = false): Promise<void> => {
+  if (getNotificationPermission() !== 'granted') return;
+  const { title, body, tag, quakeId } = buildAlertNotification(alert, distanceKm);
+  const registration = await navigator.serviceWorker.ready;
+  await registration.showNotification(title, {
+    body,
+    tag,
+    silent,
+    icon: NOTIFICATION_ICON,
+    data: { quakeId },
+  });
+};
+
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, c => c.charCodeAt(0));
+};
+
+/**
+ * Subscribes this browser to Web Push and registers the subscription, with
+ * the user's zones, at the push server.
+ */
+export const subscribeToPush = async (zones: AlertZone[], minAlertMag: number): Promise<PushSubscription> => {
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    });
+
+  const response = await fetch(`${PUSH_SERVER_URL}/subscribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription, zones, minAlertMag }),
+  });
+  if (!response.ok) throw new Error(`Push server returned ${response.status}`);
+  return subscription;
+};
+
+export const unsubscribeFromPush = async (): Promise<void> => {
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetch(`${PUSH_SERVER_URL}/unsubscribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  }).catch(e => console.error("Push server unreachable", e));
+  await subscription.unsubscribe();
+};
@@ -0,0 +1,114 @@
+import { EarthquakeFeature, StreamStatus } from '../types';
+import { normalizeEmscFeature } from './feedProviders';
+import { validateFeature } from '../utils/featureValidation';
+
+// EMSC seismicportal push service; override with a local stand-in for testing
+export const DEFAULT_STREAM_URL = process.env.QUAKE_STREAM_URL || 'wss://www.seismicportal.eu/standing_order/websocket';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60 * 1000;
+// After this many failed attempts in a row the app falls back to polling
+const FAILURES_BEFORE_FALLBACK = 5;
+
+export type StreamAction = 'create' | 'update';
+
+interface QuakeStreamOptions {
+  url?: string;
+  onEvent: (quake: EarthquakeFeature, action: StreamAction) => void;
+  onStatusChange: (status: StreamStatus) => void;
+}
+
+export interface QuakeStream {
+  stop: () => void;
+}
+
+/**
+ * Parses a seismicportal message: `{ action: 'create' | 'update', data: Feature }`.
+ * Returns null for anything that is not a usable event.
+ */
+export const parseStreamMessage = (raw: string): { action: StreamAction; quake: EarthquakeFeature } | null => {
+  try {
+    const message = JSON.parse(raw);
+    const action: StreamAction = message.action === 'update' ? 'update' : 'create';
+    const quake = normalizeEmscFeature(message.data);
+    if (!quake) return null;
+    const check = validateFeature(quake);
+    if ('reason' in check) {
+      console.warn("Dropped stream event:", check.reason);
+      return null;
+    }
+    return { action, quake: check.feature };
+  } catch (e) {
+    console.error("Invalid stream message", e);
+    return null;
+  }
+};
+
+/**
+ * Opens the push stream and keeps it open, reconnecting with exponential
+ * backoff and jitter. Reports `fallback` once it has failed repeatedly so
+ * the caller can rely on polling instead; it keeps retrying in the background.
+ */
+export const connectQuakeStream = ({ url = DEFAULT_STREAM_URL, onEvent, onStatusChange }: QuakeStreamOptions): QuakeStream => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let failures = 0;
+  let stopped = false;
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    failures++;
+    onStatusChange(failures >= FAILURES_BEFORE_FALLBACK ? 'fallback' : 'reconnecting');
+
+    const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** (failures - 1));
+    retryTimer = setTimeout(open, delay / 2 + Math.random() * delay / 2);
+  };
+
+  const open = () => {
+    if (stopped) return;
+    if (failures === 0) onStatusChange('connecting');
+
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      console.error("Stream connection failed", e);
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      failures = 0;
+      onStatusChange('live');
+    };
+
+    socket.onmessage = (event) => {
+      const parsed = parseStreamMessage(typeof event.data === 'string' ? event.data : '');
+      if (parsed) onEvent(parsed.quake, parsed.action);
+    };
+
+    // onerror is always followed by onclose, which handles the retry
+    socket.onerror = (event) => {
+      console.error("Stream error", event);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      scheduleReconnect();
+    };
+  };
+
+  open();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+        socket = null;
+      }
+      onStatusChange('off');
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { AlertNotification, AlertZone, EarthquakeFeature, LocationState, WebhookConfig, WebhookDelivery, WebhookPayload } from '../types';
+import { fetchOrThrow } from './feedProviders';
+import { FeedError } from './feedErrors';
+import { calculateDistance } from '../utils/geoUtils';
+import { formatMmi } from '../utils/groundMotion';
+
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+export const MAX_WEBHOOK_LOG = 100;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const WEBHOOK_RETRIES = 3;
+
+const toIso = (ms: number | undefined) => ms ? new Date(ms).toISOString() : null;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const buildWebhookPayload = (
+  alert: AlertNotification,
+  quake: EarthquakeFeature | undefined,
+  zone: AlertZone | undefined,
+  userLocation: LocationState | null
+): WebhookPayload => {
+  const [lng, lat, depth] = quake ? quake.geometry.coordinates : [null, null, null];
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    type: 'zone_alert',
+    kind: alert.kind ?? 'event',
+    drill: !!alert.isDrill,
+    sentAt: new Date().toISOString(),
+    alert: { id: alert.id, revised: !!alert.revised },
+    quake: {
+      id: alert.quakeId,
+      mag: alert.mag,
+      magType: quake?.properties.magType ?? null,
+      place: alert.quakePlace,
+      time: new Date(alert.timestamp).toISOString(),
+      lat,
+      lng,
+      depthKm: depth,
+      url: quake?.properties.url || null,
+    },
+    zone: {
+      id: alert.zoneId,
+      name: alert.zoneName,
+      lat: zone?.lat ?? null,
+      lng: zone?.lng ?? null,
+      radiusKm: zone?.radiusKm ?? null,
+    },
+    distanceKm: lat !== null && lng !== null && zone ? round1(calculateDistance(zone.lat, zone.lng, lat, lng)) : null,
+    userDistanceKm: lat !== null && lng !== null && userLocation
+      ? round1(calculateDistance(userLocation.lat, userLocation.lng, lat, lng))
+      : null,
+    mmi: alert.mmi !== undefined ? round1(alert.mmi) : null,
+    mmiRoman: alert.mmi !== undefined ? formatMmi(alert.mmi) : null,
+    userMmi: alert.userMmi !== undefined ? round1(alert.userMmi) : null,
+    shakingArrivesAt: toIso(alert.sArrival),
+    swarm: alert.swarm ?? null,
+  };
+};
+
+// A made-up event for the "send test" button; receivers can tell it apart by `type`
+export const buildTestPayload = (): WebhookPayload => ({
+  ...buildWebhookPayload({
+    id: 'test',
+    quakeId: 'test',
+    zoneId: 'test',
+    zoneName: 'পরীক্ষা',
+    quakePlace: 'পরীক্ষামূলক বার্তা',
+    mag: 5.0,
+    timestamp: Date.now(),
+    mmi: 5,
+  }, undefined, undefined, null),
+  type: 'test',
+});
+
+export const matchesWebhook = (hook: WebhookConfig, alert: AlertNotification): boolean => {
+  if (!hook.enabled || !hook.url) return false;
+  if (alert.isDrill && !hook.includeDrills) return false;
+  if (alert.mag < hook.minMag) return false;
+  return hook.zoneIds.length === 0 || hook.zoneIds.includes(alert.zoneId);
+};
+
+const getPath = (payload: WebhookPayload, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), payload);
+
+/**
+ * Fills {{path}} placeholders (e.g. {{quake.mag}}, {{zone.name}}) from the
+ * payload. Strings are JSON-escaped so templates can quote them inside JSON;
+ * objects are inserted as JSON and missing values as empty text.
+ */
+export const renderWebhookTemplate = (template: string, payload: WebhookPayload): string =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = getPath(payload, path);
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return JSON.stringify(value).slice(1, -1);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  });
+
+export const buildWebhookBody = (hook: WebhookConfig, payload: WebhookPayload): { body: string; contentType: string } => {
+  if (!hook.template?.trim()) return { body: JSON.stringify(payload), contentType: 'application/json' };
+  const body = renderWebhookTemplate(hook.template, payload);
+  try {
+    JSON.parse(body);
+    return { body, contentType: 'application/json' };
+  } catch (e) {
+    return { body, contentType: 'text/plain;charset=utf-8' };
+  }
+};
+
+/**
+ * POSTs the payload, retrying timeouts, network errors and 5xx/429 with
+ * backoff. Resolves with the HTTP status; rejects with a `FeedError`.
+ */
+export const sendWebhook = async (
+  hook: WebhookConfig,
+  payload: WebhookPayload,
+  onRetry?: (attempt: number, error: FeedError) => void
+): Promise<number> => {
+  const { body, contentType } = buildWebhookBody(hook, payload);
+  const response = await fetchOrThrow(hook.url, {
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+    retries: WEBHOOK_RETRIES,
+    init: { method: 'POST', headers: { 'Content-Type': contentType }, body },
+    onRetry,
+  });
+  return response.status;
+};
+
+export const appendDelivery = (log: WebhookDelivery[], delivery: WebhookDelivery): WebhookDelivery[] =>
+  [delivery, ...log].slice(0, MAX_WEBHOOK_LOG);
+
+export const updateDelivery = (log: WebhookDelivery[], id: string, patch: Partial<WebhookDelivery>): WebhookDelivery[] =>
+  log.map(delivery => delivery.id === id ? { ...delivery, ...patch } : delivery);
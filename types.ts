@@ -29,6 +29,20 @@ export interface EarthquakeFeature {
     coordinates: [number, number, number]; // Longitude, Latitude, Depth
   };
   id: string;
+  reports?: SourceReport[]; // Agencies that reported this event (set by the feed merger)
+  datasetId?: string; // Set when the event comes from an imported catalog
+  isDrill?: boolean; // Synthetic drill event; never archived or exported
+}
+
+export type FeedProviderId = 'usgs' | 'emsc' | 'gfz' | 'bmd';
+
+export interface SourceReport {
+  provider: FeedProviderId;
+  eventId: string;
+  mag: number;
+  magType: string;
+  time: number;
+  url: string;
 }
 
 export interface EarthquakeData {
@@ -40,28 +54,174 @@ export interface EarthquakeData {
     status: number;
     api: string;
     count: number;
+    rejected?: number; // Features dropped by validation
+    repaired?: number; // Features kept with defaulted fields
+  };
+  features: EarthquakeFeature[];
+}
+
+// Parsed products from the USGS event `detail` GeoJSON
+export type PagerAlertLevel = 'green' | 'yellow' | 'orange' | 'red';
+
+export interface ProductFile {
+  name: string;
+  url: string;
+  contentType: string;
+}
+
+export interface NodalPlane {
+  strike: number;
+  dip: number;
+  rake: number;
+}
+
+export interface EventDetail {
+  eventId: string;
+  fetchedAt: number;
+  pager?: {
+    alertLevel: PagerAlertLevel | null;
+    maxMmi: number | null;
+    files: ProductFile[];
+  };
+  shakemap?: {
+    maxMmi: number | null;
+    maxPga: number | null; // %g
+    maxPgv: number | null; // cm/s
+    files: ProductFile[];
+  };
+  dyfi?: {
+    maxMmi: number | null;
+    responses: number | null;
+    files: ProductFile[];
+  };
+  momentTensor?: {
+    magnitude: number | null;
+    magnitudeType: string;
+    scalarMoment: number | null; // N·m
+    percentDoubleCouple: number | null;
+    depth: number | null;
+    nodalPlanes: NodalPlane[];
+    source: string;
+    files: ProductFile[];
   };
+  origin?: {
+    reviewStatus: string;
+    stationsUsed: number | null;
+    standardError: number | null;
+    azimuthalGap: number | null;
+    source: string;
+  };
+}
+
+export type CatalogFormat = 'quakeml' | 'csv' | 'geojson';
+
+export interface ImportedDataset {
+  id: string;
+  name: string;
+  format: CatalogFormat;
+  importedAt: number;
+  isVisible: boolean;
   features: EarthquakeFeature[];
 }
 
+// Query against the locally collected archive; times are epoch ms
+export interface ArchiveQuery {
+  startTime: number;
+  endTime?: number;
+  minMagnitude?: number;
+  area?: FdsnArea;
+}
+
+// A stretch of time [start, end] (epoch ms) for which the archive holds every feed event
+export type CoverageSpan = [number, number];
+
+export interface ArchiveStats {
+  count: number;
+  oldest: number | null;
+  newest: number | null;
+}
+
 export type ViewMode = 'list' | 'map' | 'safety';
 
 export type TimePeriod = 'day' | 'week' | 'month';
 
+// Geographic constraint for an FDSN event query
+export type FdsnArea =
+  | { kind: 'bbox'; minLat: number; maxLat: number; minLng: number; maxLng: number }
+  | { kind: 'radius'; lat: number; lng: number; radiusKm: number };
+
+export interface FdsnQuery {
+  startTime: string; // ISO 8601, UTC
+  endTime?: string;
+  minMagnitude?: number;
+  maxMagnitude?: number;
+  minDepth?: number; // km
+  maxDepth?: number; // km
+  area?: FdsnArea;
+  limit?: number;
+  offset?: number; // 1-based, as defined by the FDSN spec
+}
+
+// Connection state of the real-time push stream
+export type StreamStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'fallback';
+
 export type MapStyle = 'standard' | 'satellite' | 'dark';
 
+// How events are drawn: one marker each, or aggregated to show where activity concentrates
+export type MapDensityMode = 'markers' | 'heatmap' | 'hexbin';
+
+export type DensityWeight = 'count' | 'magnitude' | 'energy';
+
 export interface LocationState {
   lat: number;
   lng: number;
 }
 
+// Smoothed position that follow-me zones are anchored to
+export interface TrackedLocation extends LocationState {
+  updatedAt: number;
+  stale?: boolean; // GPS lost; this is the last known position
+}
+
+// A single condition an event must meet to alert a zone
+export type AlertRule =
+  | { kind: 'minMag'; value: number }
+  | { kind: 'maxDepth'; value: number } // km
+  | { kind: 'tsunami' }
+  | { kind: 'eventType'; value: string }
+  | { kind: 'minSig'; value: number }
+  | { kind: 'reviewStatus'; value: 'reviewed' | 'automatic' }
+  | { kind: 'minMmi'; value: number }; // Estimated intensity at the zone
+
+export type AlertRuleKind = AlertRule['kind'];
+
+export interface AlertRuleSet {
+  combinator: 'all' | 'any'; // AND / OR
+  rules: AlertRule[];
+}
+
+// One polygon as GeoJSON rings of [lng, lat]: the outer boundary first, then any holes
+export type ZonePolygon = [number, number][][];
+
 export interface AlertZone {
   id: string;
   name: string;
-  lat: number;
+  lat: number; // Circle center, or the polygon centroid
   lng: number;
-  radiusKm: number;
+  radiusKm: number; // For polygon zones, the distance from the centroid to the farthest vertex
+  polygons?: ZonePolygon[]; // When present the zone is this (multi)polygon instead of a circle
   isVisible?: boolean;
+  rules?: AlertRuleSet; // Falls back to the global minimum magnitude when absent
+  followUser?: boolean; // Centered on the user's live location instead of lat/lng
+}
+
+export type AlertKind = 'event' | 'swarm';
+
+// Why a zone's event rate was flagged
+export interface SwarmStats {
+  count: number; // Events in the window
+  expected: number; // Events the baseline rate predicts for the same window
+  windowHours: number;
 }
 
 export interface AlertNotification {
@@ -72,4 +232,194 @@ export interface AlertNotification {
   quakePlace: string;
   mag: number;
   timestamp: number;
-}
\ No newline at end of file
+  revised?: boolean; // Raised because a revision pushed the event over the alert threshold
+  mmi?: number; // Estimated intensity at the zone
+  userMmi?: number; // Estimated intensity at the user's location, when known
+  sArrival?: number; // Epoch ms when strong shaking reaches the user (or the zone)
+  kind?: AlertKind; // Defaults to 'event'
+  swarm?: SwarmStats;
+  isDrill?: boolean; // Raised by a drill event; dropped from the log when the drill ends
+}
+
+// A mainshock and the later, smaller events inside its space-time window
+export interface AftershockSequence {
+  id: string; // The mainshock's id
+  mainshock: EarthquakeFeature;
+  aftershockIds: string[];
+  radiusKm: number;
+  windowEndsAt: number; // Epoch ms; events after this are no longer counted
+}
+
+export type SequenceRole = 'mainshock' | 'aftershock';
+
+export interface AftershockForecast {
+  days: number;
+  minMag: number;
+  expected: number; // Expected number of events
+  probability: number; // Chance of at least one, 0-1
+}
+
+export type AlertSeverity = 'moderate' | 'high' | 'critical';
+
+// How an alert keeps demanding attention until it is acknowledged
+export interface EscalationPolicy {
+  enabled: boolean;
+  sirenRepeatSec: number;
+  voiceRepeatSec: number; // 0 speaks only once
+  flash: boolean;
+}
+
+export type EscalationSettings = Record<AlertSeverity, EscalationPolicy>;
+
+// Times are local "HH:MM"; an end before the start runs past midnight
+export interface QuietHoursDay {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface QuietHoursSchedule {
+  enabled: boolean;
+  days: QuietHoursDay[]; // Indexed like Date.getDay(), Sunday first
+  overrideMag: number; // Alerts at or above this still sound
+  overrideMmi: number; // Same, for estimated intensity at the zone or user
+}
+
+export type AlertLogAction = 'fired' | 'acknowledged' | 'snoozed';
+
+export interface AlertLogEvent {
+  action: AlertLogAction;
+  at: number;
+  until?: number; // Snooze end, for 'snoozed'
+}
+
+// One fired alert plus everything the user did with it, oldest event first
+export interface AlertLogEntry {
+  alert: AlertNotification;
+  firedAt: number;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+  clearedAt?: number; // Hidden from history but kept so the alert doesn't fire again
+  audit: AlertLogEvent[];
+}
+
+export type AlertStatus = 'active' | 'snoozed' | 'acknowledged';
+
+export type RevisionField = 'mag' | 'location' | 'depth' | 'status';
+
+export interface RevisionChange {
+  field: RevisionField;
+  from: string | number;
+  to: string | number;
+}
+
+export interface EventRevision {
+  detectedAt: number;
+  updated: number; // The event's `properties.updated` after the revision
+  changes: RevisionChange[];
+}
+
+// Revision history keyed by event id, oldest revision first
+export type RevisionHistory = Record<string, EventRevision[]>;
+
+export type SafetyStatus = 'safe' | 'needHelp';
+
+// An "I'm safe" answer, recorded locally or decoded from a family member's link
+export interface CheckIn {
+  status: SafetyStatus;
+  at: number;
+  name?: string;
+  location?: LocationState;
+  quakeId?: string; // The alert that prompted the check-in
+  receivedAt?: number; // Only on check-ins decoded from a shared link
+}
+
+export interface DrillAftershock {
+  offsetSec: number; // After the mainshock
+  mag: number;
+  distanceKm: number; // From the mainshock epicenter
+}
+
+// A synthetic event sequence for exercising the alert pipeline
+export interface DrillScenario {
+  name: string;
+  lat: number;
+  lng: number;
+  depthKm: number;
+  mag: number;
+  startDelaySec: number; // Time between starting the drill and the mainshock
+  aftershocks: DrillAftershock[];
+}
+
+export interface DrillEvent {
+  fireAt: number;
+  feature: EarthquakeFeature;
+}
+
+// An outgoing HTTP hook that receives zone alerts
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  minMag: number;
+  zoneIds: string[]; // Empty means every zone
+  includeDrills: boolean;
+  template?: string; // Body with {{path}} placeholders into WebhookPayload; the payload as JSON when empty
+}
+
+/**
+ * The JSON body POSTed to webhooks (version 1). Times are ISO 8601 strings,
+ * distances are kilometres and intensities Modified Mercalli.
+ */
+export interface WebhookPayload {
+  version: number;
+  type: 'zone_alert' | 'test';
+  kind: AlertKind;
+  drill: boolean;
+  sentAt: string;
+  alert: {
+    id: string;
+    revised: boolean;
+  };
+  quake: {
+    id: string;
+    mag: number;
+    magType: string | null;
+    place: string;
+    time: string;
+    lat: number | null;
+    lng: number | null;
+    depthKm: number | null;
+    url: string | null;
+  };
+  zone: {
+    id: string;
+    name: string;
+    lat: number | null;
+    lng: number | null;
+    radiusKm: number | null;
+  };
+  distanceKm: number | null; // Epicenter to the zone center
+  userDistanceKm: number | null; // Epicenter to the user, when location is shared
+  mmi: number | null; // Estimated intensity at the zone
+  mmiRoman: string | null;
+  userMmi: number | null;
+  shakingArrivesAt: string | null; // Estimated S-wave arrival
+  swarm: SwarmStats | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  hookId: string;
+  hookName: string;
+  summary: string; // Short description of what was sent, for the log
+  startedAt: number;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+  finishedAt?: number;
+}
@@ -0,0 +1,95 @@
+import { AftershockForecast, AftershockSequence, EarthquakeFeature, SequenceRole } from '../types';
+import { calculateDistance } from './geoUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Smaller events rarely have aftershocks worth forecasting
+export const MIN_MAINSHOCK_MAG = 4.5;
+
+/**
+ * Generic sequence parameters of Reasenberg & Jones (1989): modified Omori
+ * decay (p, c in days) scaled by Gutenberg-Richter (a, b). Every forecast
+ * uses these; feed catalogs are too sparse to fit a sequence of its own.
+ */
+const GENERIC = { a: -1.67, b: 0.91, p: 1.08, c: 0.05 };
+
+// Gardner & Knopoff (1974) declustering windows
+const getDistanceWindowKm = (mag: number) => 10 ** (0.1238 * mag + 0.983);
+const getTimeWindowDays = (mag: number) => mag >= 6.5 ? 10 ** (0.032 * mag + 2.7389) : 10 ** (0.5409 * mag - 0.547);
+
+/**
+ * Groups events into sequences, largest mainshock first. Each event belongs
+ * to at most one sequence; later, smaller events inside the mainshock's
+ * window are its aftershocks.
+ */
+export const findSequences = (quakes: EarthquakeFeature[]): AftershockSequence[] => {
+  const assigned = new Set<string>();
+  const sequences: AftershockSequence[] = [];
+
+  [...quakes]
+    .sort((a, b) => b.properties.mag - a.properties.mag)
+    .forEach(mainshock => {
+      const mag = mainshock.properties.mag;
+      if (mag < MIN_MAINSHOCK_MAG || assigned.has(mainshock.id)) return;
+
+      const [lng, lat] = mainshock.geometry.coordinates;
+      const radiusKm = getDistanceWindowKm(mag);
+      const windowEndsAt = mainshock.properties.time + getTimeWindowDays(mag) * DAY_MS;
+
+      const aftershockIds = quakes
+        .filter(q =>
+          !assigned.has(q.id) &&
+          q.id !== mainshock.id &&
+          q.properties.mag < mag &&
+          q.properties.time > mainshock.properties.time &&
+          q.properties.time <= windowEndsAt &&
+          calculateDistance(lat, lng, q.geometry.coordinates[1], q.geometry.coordinates[0]) <= radiusKm
+        )
+        .map(q => q.id);
+
+      assigned.add(mainshock.id);
+      aftershockIds.forEach(id => assigned.add(id));
+      sequences.push({ id: mainshock.id, mainshock, aftershockIds, radiusKm, windowEndsAt });
+    });
+
+  return sequences;
+};
+
+// Role of every event in a sequence; a mainshock with no aftershocks yet isn't listed
+export const getSequenceRoles = (sequences: AftershockSequence[]): Map<string, { sequence: AftershockSequence; role: SequenceRole }> => {
+  const roles = new Map<string, { sequence: AftershockSequence; role: SequenceRole }>();
+  sequences.forEach(sequence => {
+    if (sequence.aftershockIds.length === 0) return;
+    roles.set(sequence.id, { sequence, role: 'mainshock' });
+    sequence.aftershockIds.forEach(id => roles.set(id, { sequence, role: 'aftershock' }));
+  });
+  return roles;
+};
+
+export const isSequenceActive = (sequence: AftershockSequence, now: number = Date.now()): boolean => {
+  return now < sequence.windowEndsAt;
+};
+
+/**
+ * Expected number of aftershocks at or above `minMag` from `now` over the
+ * next `days`, integrating the Omori rate over that interval.
+ */
+export const forecastAftershocks = (
+  mainshock: EarthquakeFeature,
+  minMag: number,
+  days: number,
+  now: number = Date.now()
+): AftershockForecast => {
+  const { a, b, p, c } = GENERIC;
+  const t1 = Math.max(0, (now - mainshock.properties.time) / DAY_MS);
+  const t2 = t1 + days;
+  const productivity = 10 ** (a + b * (mainshock.properties.mag - minMag));
+  const expected = productivity * ((t1 + c) ** (1 - p) - (t2 + c) ** (1 - p)) / (p - 1);
+  return { days, minMag, expected, probability: 1 - Math.exp(-expected) };
+};
+
+// Whole-magnitude thresholds from two units below the mainshock up to it
+export const getForecastMagnitudes = (mainshockMag: number): number[] => {
+  const top = Math.floor(mainshockMag);
+  return [top - 2, top - 1, top].filter(m => m >= 3);
+};
@@ -0,0 +1,138 @@
+import { AlertNotification, AlertRule, AlertRuleSet, AlertZone, EarthquakeFeature, LocationState } from '../types';
+import { calculateDistance } from './geoUtils';
+import { getDistanceToPolygonsKm, pointInPolygons } from './zoneGeometry';
+import { estimateMmi, estimateMmiAt, getWaveArrivals, getWaveArrivalsAt } from './groundMotion';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AlertEvaluationInput {
+  quakes: EarthquakeFeature[];
+  zones: AlertZone[];
+  defaultMinMag: number; // Used by zones that have no rules of their own
+  now: number;
+  maxAgeMs?: number; // Older events never alert; defaults to 24 hours
+  existingAlertIds?: Set<string>;
+  revisedIds?: Set<string>;
+  userLocation?: LocationState | null;
+}
+
+/**
+ * Hypocentral distance to the most exposed point of the zone: the epicenter
+ * if it lies inside, otherwise the nearest point on the circle or polygon edge.
+ */
+export const getZoneDistance = (quake: EarthquakeFeature, zone: AlertZone): number => {
+  const [lng, lat, depth] = quake.geometry.coordinates;
+  if (isInZone(zone, lat, lng)) return Math.max(0, depth);
+  const edgeKm = zone.polygons
+    ? getDistanceToPolygonsKm(lat, lng, zone.polygons)
+    : Math.max(0, calculateDistance(zone.lat, zone.lng, lat, lng) - zone.radiusKm);
+  return Math.sqrt(edgeKm ** 2 + Math.max(0, depth) ** 2);
+};
+
+// Where the event stands relative to one zone
+export interface ZoneContext {
+  inZone: boolean;
+  mmi: number;
+}
+
+const matchesEventRule = (quake: EarthquakeFeature, rule: Exclude<AlertRule, { kind: 'minMmi' }>): boolean => {
+  const p = quake.properties;
+  switch (rule.kind) {
+    case 'minMag':
+      return p.mag >= rule.value;
+    case 'maxDepth':
+      return quake.geometry.coordinates[2] <= rule.value;
+    case 'tsunami':
+      return p.tsunami === 1;
+    case 'eventType':
+      return p.type === rule.value;
+    case 'minSig':
+      return p.sig >= rule.value;
+    case 'reviewStatus':
+      return p.status === rule.value;
+  }
+};
+
+/**
+ * Intensity rules already account for distance, so they match events outside
+ * the zone; every other rule only matches events inside it.
+ */
+export const matchesRule = (quake: EarthquakeFeature, rule: AlertRule, context: ZoneContext): boolean => {
+  if (rule.kind === 'minMmi') return context.mmi >= rule.value;
+  return context.inZone && matchesEventRule(quake, rule);
+};
+
+/**
+ * An empty rule set matches everything inside the zone, so a zone with only
+ * an area still works as a plain "anything nearby" alert.
+ */
+export const matchesRuleSet = (quake: EarthquakeFeature, ruleSet: AlertRuleSet, context: ZoneContext): boolean => {
+  if (ruleSet.rules.length === 0) return context.inZone;
+  return ruleSet.combinator === 'all'
+    ? ruleSet.rules.every(rule => matchesRule(quake, rule, context))
+    : ruleSet.rules.some(rule => matchesRule(quake, rule, context));
+};
+
+export const getZoneRules = (zone: AlertZone, defaultMinMag: number): AlertRuleSet => {
+  return zone.rules || { combinator: 'all', rules: [{ kind: 'minMag', value: defaultMinMag }] };
+};
+
+export const isInZone = (zone: AlertZone, lat: number, lng: number): boolean => {
+  if (zone.polygons) return pointInPolygons(lat, lng, zone.polygons);
+  return calculateDistance(zone.lat, zone.lng, lat, lng) <= zone.radiusKm;
+};
+
+export const getAlertId = (quake: EarthquakeFeature, zone: AlertZone): string => `${quake.id}-${zone.id}`;
+
+/**
+ * Decides which quake/zone pairs should raise an alert. Pure: everything it
+ * depends on, including the current time, is passed in.
+ */
+export const evaluateAlerts = ({
+  quakes,
+  zones,
+  defaultMinMag,
+  now,
+  maxAgeMs = DAY_MS,
+  existingAlertIds = new Set(),
+  revisedIds = new Set(),
+  userLocation = null,
+}: AlertEvaluationInput): AlertNotification[] => {
+  const alerts: AlertNotification[] = [];
+  const oldest = now - maxAgeMs;
+
+  quakes.forEach(quake => {
+    if (quake.properties.time < oldest) return;
+    const [lng, lat] = quake.geometry.coordinates;
+
+    zones.forEach(zone => {
+      const alertId = getAlertId(quake, zone);
+      if (existingAlertIds.has(alertId)) return;
+
+      const zoneKm = getZoneDistance(quake, zone);
+      const context: ZoneContext = { inZone: isInZone(zone, lat, lng), mmi: estimateMmi(quake.properties.mag, zoneKm) };
+      if (!matchesRuleSet(quake, getZoneRules(zone, defaultMinMag), context)) return;
+
+      alerts.push({
+        id: alertId,
+        quakeId: quake.id,
+        zoneId: zone.id,
+        zoneName: zone.name,
+        quakePlace: quake.properties.place,
+        mag: quake.properties.mag,
+        timestamp: quake.properties.time,
+        kind: 'event',
+        isDrill: quake.isDrill,
+        revised: revisedIds.has(quake.id),
+        mmi: context.mmi,
+        userMmi: userLocation ? estimateMmiAt(quake, userLocation.lat, userLocation.lng) : undefined,
+        // Counts down to the user when we know where they are, otherwise to the zone
+        sArrival: (userLocation
+          ? getWaveArrivalsAt(quake, userLocation.lat, userLocation.lng)
+          : getWaveArrivals(quake.properties.time, zoneKm)).sArrival,
+      });
+    });
+  });
+
+  return alerts;
+};
@@ -0,0 +1,83 @@
+import { AlertLogEntry, AlertNotification, AlertStatus } from '../types';
+
+// Long enough to cover every feed window, so an old alert never fires twice
+const LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LOG_ENTRIES = 500;
+
+export const SNOOZE_MINUTES = 15;
+
+export const getAlertStatus = (entry: AlertLogEntry, now: number = Date.now()): AlertStatus => {
+  if (entry.acknowledgedAt) return 'acknowledged';
+  if (entry.snoozedUntil && entry.snoozedUntil > now) return 'snoozed';
+  return 'active';
+};
+
+/**
+ * Adds newly fired alerts to the front of the log, skipping any id already
+ * logged, and drops entries past retention.
+ */
+export const appendAlerts = (
+  log: AlertLogEntry[],
+  alerts: AlertNotification[],
+  now: number = Date.now()
+): AlertLogEntry[] => {
+  const known = new Set(log.map(entry => entry.alert.id));
+  const added = alerts
+    .filter(alert => !known.has(alert.id))
+    .map(alert => ({ alert, firedAt: now, audit: [{ action: 'fired' as const, at: now }] }));
+
+  return [...added, ...log]
+    .filter(entry => now - entry.firedAt < LOG_RETENTION_MS)
+    .slice(0, MAX_LOG_ENTRIES);
+};
+
+export const acknowledgeAlerts = (
+  log: AlertLogEntry[],
+  ids: Set<string>,
+  now: number = Date.now()
+): AlertLogEntry[] => {
+  return log.map(entry => {
+    if (!ids.has(entry.alert.id) || entry.acknowledgedAt) return entry;
+    return {
+      ...entry,
+      acknowledgedAt: now,
+      snoozedUntil: undefined,
+      audit: [...entry.audit, { action: 'acknowledged', at: now }],
+    };
+  });
+};
+
+export const snoozeAlert = (
+  log: AlertLogEntry[],
+  id: string,
+  minutes: number,
+  now: number = Date.now()
+): AlertLogEntry[] => {
+  const until = now + minutes * 60 * 1000;
+  return log.map(entry => {
+    if (entry.alert.id !== id || entry.acknowledgedAt) return entry;
+    return {
+      ...entry,
+      snoozedUntil: until,
+      audit: [...entry.audit, { action: 'snoozed', at: now, until }],
+    };
+  });
+};
+
+// Hides acknowledged entries from the history; pending ones stay until handled
+export const clearAcknowledged = (log: AlertLogEntry[], now: number = Date.now()): AlertLogEntry[] => {
+  return log.map(entry => entry.acknowledgedAt && !entry.clearedAt ? { ...entry, clearedAt: now } : entry);
+};
+
+// Earliest future snooze end, so the caller knows when to look again
+export const getNextSnoozeEnd = (log: AlertLogEntry[], now: number = Date.now()): number | null => {
+  const ends = log
+    .filter(entry => !entry.acknowledgedAt && entry.snoozedUntil && entry.snoozedUntil > now)
+    .map(entry => entry.snoozedUntil as number);
+  return ends.length > 0 ? Math.min(...ends) : null;
+};
+
+// Drill alerts only live for the drill; their ids are unique per run, so nothing needs a tombstone
+export const removeDrillAlerts = (log: AlertLogEntry[]): AlertLogEntry[] => {
+  return log.filter(entry => !entry.alert.isDrill);
+};
@@ -0,0 +1,7 @@
+// Older Safari only ships the prefixed constructor
+type WebkitWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+export const createAudioContext = (): AudioContext => {
+  const Ctx = window.AudioContext || (window as WebkitWindow).webkitAudioContext;
+  return new Ctx();
+};
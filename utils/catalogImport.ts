@@ -0,0 +1,271 @@
+import { CatalogFormat, EarthquakeFeature } from '../types';
+import { createFeature, FeatureInput } from '../services/feedProviders';
+import { isObject } from './featureValidation';
+
+export interface CatalogParseResult {
+  features: EarthquakeFeature[];
+  rejected: number;
+  errors: string[]; // First few reasons, for display
+}
+
+const MAX_REPORTED_ERRORS = 5;
+
+// Column names we recognise in CSV headers, including our own export headers
+const CSV_ALIASES = {
+  id: ['id', 'eventid', 'event_id', 'আইডি'],
+  time: ['time', 'time_utc', 'datetime', 'origin_time', 'origintime', 'date', 'সময় (utc)'],
+  lat: ['latitude', 'lat', 'অক্ষাংশ'],
+  lng: ['longitude', 'lon', 'lng', 'long', 'দ্রাঘিমাংশ'],
+  depth: ['depth', 'depth_km', 'depth/km', 'গভীরতা (কিমি)'],
+  mag: ['magnitude', 'mag', 'মাত্রা'],
+  magType: ['magtype', 'mag_type', 'মাত্রার ধরন'],
+  place: ['place', 'location', 'region', 'eventlocationname', 'স্থান'],
+};
+
+const parseTime = (value: string | number | null | undefined): number => {
+  if (value === null || value === undefined || value === '') return NaN;
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    // Epoch seconds vs milliseconds
+    return numeric < 1e11 ? numeric * 1000 : numeric;
+  }
+  const str = String(value).trim().replace(' ', 'T');
+  const hasZone = /[zZ]|[+-]\d{2}:?\d{2}$/.test(str);
+  // Catalogs are conventionally in UTC
+  return new Date(hasZone || !str.includes('T') ? str : `${str}Z`).getTime();
+};
+
+// JSON values to numbers; null and empty strings are missing (NaN), not zero
+const toNum = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const toText = (...values: unknown[]): string => {
+  const found = values.find(v => typeof v === 'string' && v !== '');
+  return typeof found === 'string' ? found : '';
+};
+
+/**
+ * Checks that a parsed record is plausible. Returns the reason it is not,
+ * or null when it can be used.
+ */
+export const validateRecord = (input: FeatureInput): string | null => {
+  if (!isFinite(input.lat) || input.lat < -90 || input.lat > 90) return 'অক্ষাংশ সঠিক নয়';
+  if (!isFinite(input.lng) || input.lng < -180 || input.lng > 180) return 'দ্রাঘিমাংশ সঠিক নয়';
+  if (!isFinite(input.mag) || input.mag < -2 || input.mag > 10) return 'মাত্রা সঠিক নয়';
+  if (!isFinite(input.time)) return 'সময় সঠিক নয়';
+  if (!isFinite(input.depth) || input.depth < -10 || input.depth > 800) return 'গভীরতা সঠিক নয়';
+  return null;
+};
+
+const collect = (datasetId: string, inputs: (FeatureInput | string)[]): CatalogParseResult => {
+  const result: CatalogParseResult = { features: [], rejected: 0, errors: [] };
+  const seen = new Set<string>();
+
+  inputs.forEach((input, index) => {
+    const reason = typeof input === 'string' ? input : validateRecord(input);
+    if (reason !== null || typeof input === 'string') {
+      result.rejected++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push(`#${index + 1}: ${reason}`);
+      }
+      return;
+    }
+
+    // Namespace ids so imports never collide with live events or each other
+    let id = `${datasetId}_${input.id || index}`;
+    while (seen.has(id)) id = `${id}_dup`;
+    seen.add(id);
+
+    result.features.push({ ...createFeature({ ...input, id }), datasetId });
+  });
+
+  return result;
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+export const parseCsvCatalog = (text: string, datasetId: string): CatalogParseResult => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return { features: [], rejected: 0, errors: ['ফাইলটি খালি'] };
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const column = (key: keyof typeof CSV_ALIASES) => header.findIndex(h => CSV_ALIASES[key].includes(h));
+  const cols = {
+    id: column('id'), time: column('time'), lat: column('lat'), lng: column('lng'),
+    depth: column('depth'), mag: column('mag'), magType: column('magType'), place: column('place'),
+  };
+
+  if (cols.lat === -1 || cols.lng === -1 || cols.mag === -1 || cols.time === -1) {
+    return { features: [], rejected: rows.length - 1, errors: ['সময়, অক্ষাংশ, দ্রাঘিমাংশ ও মাত্রার কলাম পাওয়া যায়নি'] };
+  }
+
+  const get = (row: string[], idx: number) => (idx === -1 ? '' : (row[idx] || '').trim());
+
+  const inputs = rows.slice(1).map(row => ({
+    id: get(row, cols.id),
+    lat: parseFloat(get(row, cols.lat)),
+    lng: parseFloat(get(row, cols.lng)),
+    depth: cols.depth === -1 ? 0 : parseFloat(get(row, cols.depth)),
+    mag: parseFloat(get(row, cols.mag)),
+    magType: get(row, cols.magType),
+    time: parseTime(get(row, cols.time)),
+    place: get(row, cols.place),
+    url: '',
+    net: 'import',
+  }));
+
+  return collect(datasetId, inputs);
+};
+
+export const parseGeoJsonCatalog = (text: string, datasetId: string): CatalogParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { features: [], rejected: 0, errors: ['JSON পড়া যায়নি'] };
+  }
+
+  let features: unknown[] = [];
+  if (isObject(data) && data.type === 'FeatureCollection' && Array.isArray(data.features)) features = data.features;
+  else if (isObject(data) && data.type === 'Feature') features = [data];
+
+  const inputs = features.map((f, i): FeatureInput | string => {
+    const geometry = isObject(f) ? f.geometry : undefined;
+    if (!isObject(f) || !isObject(geometry) || geometry.type !== 'Point' || !Array.isArray(geometry.coordinates)) {
+      return 'পয়েন্ট জ্যামিতি নেই';
+    }
+    const p = isObject(f.properties) ? f.properties : {};
+    const [lng, lat, depth] = geometry.coordinates;
+    const time = p.time;
+    return {
+      id: String(f.id ?? p.id ?? i),
+      lat: toNum(lat),
+      lng: toNum(lng),
+      depth: toNum(depth ?? p.depth ?? 0),
+      mag: toNum(p.mag ?? p.magnitude),
+      magType: toText(p.magType, p.magtype),
+      time: parseTime(typeof time === 'string' || typeof time === 'number' ? time : null),
+      place: toText(p.place, p.flynn_region),
+      url: toText(p.url),
+      net: toText(p.net) || 'import',
+      type: toText(p.type) || undefined,
+    };
+  });
+
+  return collect(datasetId, inputs);
+};
+
+// QuakeML element lookup that ignores namespace prefixes
+const child = (el: Element | null | undefined, name: string): Element | null => {
+  if (!el) return null;
+  for (const c of Array.from(el.children)) {
+    if (c.localName === name) return c;
+  }
+  return null;
+};
+
+const childValue = (el: Element | null | undefined, name: string): string | null => {
+  const c = child(el, name);
+  if (!c) return null;
+  const value = child(c, 'value');
+  return (value ? value.textContent : c.textContent)?.trim() ?? null;
+};
+
+/**
+ * Parses QuakeML 1.2 (as served by FDSN `format=xml`). Uses the preferred
+ * origin and magnitude of each event, falling back to the first ones.
+ */
+export const parseQuakeMlCatalog = (text: string, datasetId: string): CatalogParseResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { features: [], rejected: 0, errors: ['XML পড়া যায়নি'] };
+  }
+
+  const events = Array.from(doc.getElementsByTagNameNS('*', 'event'));
+
+  const inputs = events.map((event, i): FeatureInput | string => {
+    const origins = Array.from(event.children).filter(c => c.localName === 'origin');
+    const magnitudes = Array.from(event.children).filter(c => c.localName === 'magnitude');
+    const preferredOriginId = child(event, 'preferredOriginID')?.textContent?.trim();
+    const preferredMagId = child(event, 'preferredMagnitudeID')?.textContent?.trim();
+
+    const origin = origins.find(o => o.getAttribute('publicID') === preferredOriginId) || origins[0];
+    const magnitude = magnitudes.find(m => m.getAttribute('publicID') === preferredMagId) || magnitudes[0];
+    if (!origin) return 'অরিজিন নেই';
+    if (!magnitude) return 'মাত্রা নেই';
+
+    const depthMeters = childValue(origin, 'depth');
+    const publicId = event.getAttribute('publicID') || String(i);
+
+    return {
+      // publicIDs are long resource URIs; the last path/query segment is the useful part
+      id: publicId.split(/[/=]/).pop() || String(i),
+      lat: parseFloat(childValue(origin, 'latitude') || ''),
+      lng: parseFloat(childValue(origin, 'longitude') || ''),
+      depth: depthMeters ? parseFloat(depthMeters) / 1000 : 0,
+      mag: parseFloat(childValue(magnitude, 'mag') || ''),
+      magType: child(magnitude, 'type')?.textContent?.trim() || '',
+      time: parseTime(childValue(origin, 'time')),
+      place: child(child(event, 'description'), 'text')?.textContent?.trim() || '',
+      url: '',
+      net: 'import',
+      type: child(event, 'type')?.textContent?.trim() || undefined,
+    };
+  });
+
+  return collect(datasetId, inputs);
+};
+
+export const detectCatalogFormat = (fileName: string, text: string): CatalogFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'xml' || ext === 'quakeml' || ext === 'qml') return 'quakeml';
+  if (ext === 'csv' || ext === 'txt') return 'csv';
+  if (ext === 'json' || ext === 'geojson') return 'geojson';
+
+  const head = text.trimStart().slice(0, 200);
+  if (head.startsWith('<')) return 'quakeml';
+  if (head.startsWith('{')) return 'geojson';
+  if (head.includes(',')) return 'csv';
+  return null;
+};
+
+export const parseCatalog = (format: CatalogFormat, text: string, datasetId: string): CatalogParseResult => {
+  switch (format) {
+    case 'quakeml': return parseQuakeMlCatalog(text, datasetId);
+    case 'csv': return parseCsvCatalog(text, datasetId);
+    case 'geojson':
+    default: return parseGeoJsonCatalog(text, datasetId);
+  }
+};
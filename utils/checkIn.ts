@@ -0,0 +1,100 @@
+import { CheckIn, SafetyStatus } from '../types';
+
+export const CHECK_IN_PARAM = 'checkin';
+export const MAX_CHECK_INS = 50;
+
+const FORMAT_VERSION = 1;
+const STATUS_CODES: SafetyStatus[] = ['needHelp', 'safe'];
+
+// ~11 m, plenty for "where are you" and keeps the QR code small
+const roundCoord = (value: number) => Math.round(value * 1e4) / 1e4;
+
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string): string => {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/**
+ * Packs a check-in into a URL-safe code. Fields are positional to keep links
+ * short: [format, status, unix seconds, name, lat, lng, quake id].
+ */
+export const encodeCheckIn = (checkIn: CheckIn): string => {
+  const fields = [
+    FORMAT_VERSION,
+    STATUS_CODES.indexOf(checkIn.status),
+    Math.round(checkIn.at / 1000),
+    checkIn.name ?? '',
+    checkIn.location ? roundCoord(checkIn.location.lat) : null,
+    checkIn.location ? roundCoord(checkIn.location.lng) : null,
+    checkIn.quakeId ?? '',
+  ];
+  return toBase64Url(JSON.stringify(fields));
+};
+
+export const decodeCheckIn = (code: string): CheckIn | null => {
+  try {
+    const fields = JSON.parse(fromBase64Url(code));
+    if (!Array.isArray(fields) || fields[0] !== FORMAT_VERSION) return null;
+    const [, statusCode, seconds, name, lat, lng, quakeId] = fields;
+    const status = STATUS_CODES[statusCode];
+    if (!status || typeof seconds !== 'number') return null;
+
+    const checkIn: CheckIn = { status, at: seconds * 1000 };
+    if (typeof name === 'string' && name) checkIn.name = name.slice(0, 60);
+    if (typeof lat === 'number' && typeof lng === 'number' && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      checkIn.location = { lat, lng };
+    }
+    if (typeof quakeId === 'string' && quakeId) checkIn.quakeId = quakeId;
+    return checkIn;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const buildCheckInLink = (checkIn: CheckIn): string =>
+  `${window.location.origin}${window.location.pathname}?${CHECK_IN_PARAM}=${encodeCheckIn(checkIn)}`;
+
+// Accepts a full shared link or just its code
+export const parseCheckInLink = (text: string): CheckIn | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  try {
+    const code = new URL(trimmed).searchParams.get(CHECK_IN_PARAM);
+    return code ? decodeCheckIn(code) : null;
+  } catch (e) {
+    return decodeCheckIn(trimmed);
+  }
+};
+
+export const getMapLink = (location: { lat: number; lng: number }): string =>
+  `https://www.google.com/maps?q=${roundCoord(location.lat)},${roundCoord(location.lng)}`;
+
+// Plain text for SMS and messengers, readable even if the link isn't opened
+export const buildCheckInMessage = (checkIn: CheckIn, link: string, quakeTitle?: string): string => {
+  const who = checkIn.name ? ` — ${checkIn.name}` : '';
+  const lines = [
+    checkIn.status === 'safe' ? `✅ আমি নিরাপদ আছি${who}` : `🆘 আমার সাহায্য দরকার${who}`,
+    `সময়: ${new Date(checkIn.at).toLocaleString('bn-BD', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`,
+  ];
+  if (checkIn.location) lines.push(`অবস্থান: ${getMapLink(checkIn.location)}`);
+  if (quakeTitle) lines.push(`ভূমিকম্প: ${quakeTitle}`);
+  lines.push(link);
+  return lines.join('\n');
+};
+
+/**
+ * Keeps the newest check-in per person. People are told apart by name, so
+ * unnamed check-ins replace each other.
+ */
+export const addToFamilyBoard = (board: CheckIn[], checkIn: CheckIn): CheckIn[] => {
+  const key = checkIn.name ?? '';
+  const existing = board.find(c => (c.name ?? '') === key);
+  if (existing && existing.at > checkIn.at) return board;
+  return [checkIn, ...board.filter(c => c !== existing)].sort((a, b) => b.at - a.at);
+};
@@ -0,0 +1,110 @@
+import { DensityWeight, EarthquakeFeature } from '../types';
+
+export interface WeightedPoint {
+  x: number;
+  y: number;
+  weight: number;
+}
+
+export interface HexBin {
+  x: number; // Center, in the same pixel space as the input points
+  y: number;
+  count: number;
+  weight: number;
+}
+
+/**
+ * Relative weight of one event. Energy follows the Gutenberg-Richter
+ * relation log E = 1.5 M + 4.8, so each magnitude step is ~32x; only the
+ * ratio matters here, so the constant is dropped.
+ */
+export const getQuakeWeight = (quake: EarthquakeFeature, weight: DensityWeight): number => {
+  const mag = Math.max(0, quake.properties.mag);
+  switch (weight) {
+    case 'magnitude': return mag;
+    case 'energy': return Math.pow(10, 1.5 * mag);
+    default: return 1;
+  }
+};
+
+// Pointy-top hexagons in axial coordinates; points are binned by rounding to the nearest center
+export const binHexagons = (points: WeightedPoint[], radius: number): HexBin[] => {
+  const width = Math.sqrt(3) * radius;
+  const bins = new Map<string, HexBin>();
+
+  points.forEach(point => {
+    const q = (point.x * Math.sqrt(3) / 3 - point.y / 3) / radius;
+    const r = (point.y * 2 / 3) / radius;
+
+    // Cube rounding
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(-q - r);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs + q + r);
+    if (dq > dr && dq > ds) rq = -rr - rs;
+    else if (dr > ds) rr = -rq - rs;
+
+    const key = `${rq},${rr}`;
+    let bin = bins.get(key);
+    if (!bin) {
+      bin = { x: width * (rq + rr / 2), y: radius * 1.5 * rr, count: 0, weight: 0 };
+      bins.set(key, bin);
+    }
+    bin.count++;
+    bin.weight += point.weight;
+  });
+
+  return Array.from(bins.values());
+};
+
+export const getHexCorners = (x: number, y: number, radius: number): [number, number][] =>
+  Array.from({ length: 6 }, (_, i) => {
+    const angle = Math.PI / 180 * (60 * i - 30);
+    return [x + radius * Math.cos(angle), y + radius * Math.sin(angle)];
+  });
+
+// Shared by the heatmap palette, hex fills and the legend
+export const DENSITY_GRADIENT: [number, string][] = [
+  [0.0, '#3b82f6'],
+  [0.35, '#22d3ee'],
+  [0.55, '#84cc16'],
+  [0.75, '#facc15'],
+  [1.0, '#dc2626'],
+];
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Color for a 0-1 intensity, interpolated along DENSITY_GRADIENT
+export const getDensityRgb = (t: number): [number, number, number] => {
+  const v = Math.min(1, Math.max(0, t));
+  for (let i = 1; i < DENSITY_GRADIENT.length; i++) {
+    const [stop, color] = DENSITY_GRADIENT[i];
+    if (v <= stop) {
+      const [prevStop, prevColor] = DENSITY_GRADIENT[i - 1];
+      const f = (v - prevStop) / (stop - prevStop);
+      const a = hexToRgb(prevColor);
+      const b = hexToRgb(color);
+      return [0, 1, 2].map(k => Math.round(a[k] + (b[k] - a[k]) * f)) as [number, number, number];
+    }
+  }
+  return hexToRgb(DENSITY_GRADIENT[DENSITY_GRADIENT.length - 1][1]);
+};
+
+export const getDensityColor = (t: number): string => `rgb(${getDensityRgb(t).join(',')})`;
+
+/**
+ * Maps a weight to 0-1 against the largest one. Energy spans many orders of
+ * magnitude, so it is compared on a log scale; otherwise the biggest event
+ * would wash out everything else.
+ */
+export const normalizeWeight = (value: number, max: number, weight: DensityWeight): number => {
+  if (max <= 0) return 0;
+  if (weight !== 'energy') return value / max;
+  return Math.max(0, 1 - Math.log10(max / value) / 6);
+};
@@ -0,0 +1,75 @@
+import { DrillEvent, DrillScenario, EarthquakeFeature } from '../types';
+import { createFeature } from '../services/feedProviders';
+
+export const DRILL_ID_PREFIX = 'drill-';
+
+// A Madhupur fault rupture, the scenario most Dhaka preparedness drills use
+export const DEFAULT_DRILL_SCENARIO: DrillScenario = {
+  name: 'মধুপুর ফল্ট',
+  lat: 24.6,
+  lng: 90.1,
+  depthKm: 10,
+  mag: 6.5,
+  startDelaySec: 10,
+  aftershocks: [
+    { offsetSec: 60, mag: 4.8, distanceKm: 8 },
+    { offsetSec: 180, mag: 4.3, distanceKm: 15 },
+  ],
+};
+
+const EARTH_RADIUS_KM = 6371;
+// Golden angle, so aftershocks spread around the epicenter instead of lining up
+const BEARING_STEP_DEG = 137.5;
+
+const offsetPoint = (lat: number, lng: number, distanceKm: number, bearingDeg: number) => {
+  const d = distanceKm / EARTH_RADIUS_KM;
+  const bearing = bearingDeg * Math.PI / 180;
+  const lat1 = lat * Math.PI / 180;
+  const lng1 = lng * Math.PI / 180;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(bearing));
+  const lng2 = lng1 + Math.atan2(Math.sin(bearing) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: lat2 * 180 / Math.PI, lng: lng2 * 180 / Math.PI };
+};
+
+const createDrillFeature = (
+  id: string,
+  scenario: DrillScenario,
+  point: { lat: number; lng: number },
+  mag: number,
+  time: number
+): EarthquakeFeature => ({
+  ...createFeature({
+    id,
+    lat: point.lat,
+    lng: point.lng,
+    depth: scenario.depthKm,
+    mag,
+    magType: 'mw',
+    time,
+    place: `${scenario.name} (মহড়া)`,
+    url: '',
+    net: 'drill',
+  }),
+  isDrill: true,
+});
+
+/**
+ * The scenario's mainshock and aftershocks as timed events. Origin times are
+ * the firing times, so S-wave countdowns run exactly as for a real event.
+ */
+export const buildDrillEvents = (scenario: DrillScenario, startedAt: number): DrillEvent[] => {
+  const runId = `${DRILL_ID_PREFIX}${startedAt}`;
+  const mainAt = startedAt + scenario.startDelaySec * 1000;
+  const events: DrillEvent[] = [{
+    fireAt: mainAt,
+    feature: createDrillFeature(`${runId}-0`, scenario, scenario, scenario.mag, mainAt),
+  }];
+
+  scenario.aftershocks.forEach((aftershock, i) => {
+    const fireAt = mainAt + aftershock.offsetSec * 1000;
+    const point = offsetPoint(scenario.lat, scenario.lng, aftershock.distanceKm, i * BEARING_STEP_DEG);
+    events.push({ fireAt, feature: createDrillFeature(`${runId}-${i + 1}`, scenario, point, aftershock.mag, fireAt) });
+  });
+
+  return events.sort((a, b) => a.fireAt - b.fireAt);
+};
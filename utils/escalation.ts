@@ -0,0 +1,46 @@
+import { AlertNotification, AlertSeverity, EscalationSettings } from '../types';
+
+export const SEVERITY_ORDER: AlertSeverity[] = ['moderate', 'high', 'critical'];
+
+export const DEFAULT_ESCALATION: EscalationSettings = {
+  moderate: { enabled: false, sirenRepeatSec: 30, voiceRepeatSec: 0, flash: false },
+  high: { enabled: true, sirenRepeatSec: 10, voiceRepeatSec: 30, flash: false },
+  critical: { enabled: true, sirenRepeatSec: 5, voiceRepeatSec: 20, flash: true },
+};
+
+// Each repeat is this much louder than the last, up to MAX_SIREN_LEVEL
+const SIREN_LEVEL_STEP = 0.5;
+const MAX_SIREN_LEVEL = 3;
+
+/**
+ * Severity from magnitude and estimated intensity, whichever is worse.
+ * Swarms are many small events, so they never escalate past moderate.
+ */
+export const getAlertSeverity = (alert: AlertNotification): AlertSeverity => {
+  if (alert.kind === 'swarm') return 'moderate';
+  const mmi = Math.max(alert.mmi ?? 0, alert.userMmi ?? 0);
+  if (alert.mag >= 6.5 || mmi >= 7) return 'critical';
+  if (alert.mag >= 5.0 || mmi >= 5) return 'high';
+  return 'moderate';
+};
+
+/**
+ * The alert that should drive the alarm: the most severe one whose policy
+ * escalates, newest first among equals.
+ */
+export const pickEscalatingAlert = (
+  alerts: AlertNotification[],
+  settings: EscalationSettings
+): AlertNotification | null => {
+  let picked: AlertNotification | null = null;
+  alerts.forEach(alert => {
+    const severity = getAlertSeverity(alert);
+    if (!settings[severity].enabled) return;
+    if (!picked || SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(getAlertSeverity(picked))) {
+      picked = alert;
+    }
+  });
+  return picked;
+};
+
+export const getSirenLevel = (repeat: number): number => Math.min(MAX_SIREN_LEVEL, 1 + repeat * SIREN_LEVEL_STEP);
@@ -0,0 +1,158 @@
+import { EarthquakeFeature } from '../types';
+
+export type ExportFormat = 'geojson' | 'csv' | 'kml' | 'gpx';
+
+export type CsvHeaderLanguage = 'bn' | 'en';
+
+const CSV_COLUMNS: { en: string; bn: string; value: (q: EarthquakeFeature) => string | number | null }[] = [
+  { en: 'id', bn: 'আইডি', value: q => q.id },
+  { en: 'time_utc', bn: 'সময় (UTC)', value: q => new Date(q.properties.time).toISOString() },
+  { en: 'latitude', bn: 'অক্ষাংশ', value: q => q.geometry.coordinates[1] },
+  { en: 'longitude', bn: 'দ্রাঘিমাংশ', value: q => q.geometry.coordinates[0] },
+  { en: 'depth_km', bn: 'গভীরতা (কিমি)', value: q => q.geometry.coordinates[2] },
+  { en: 'magnitude', bn: 'মাত্রা', value: q => q.properties.mag },
+  { en: 'mag_type', bn: 'মাত্রার ধরন', value: q => q.properties.magType },
+  { en: 'place', bn: 'স্থান', value: q => q.properties.place },
+  { en: 'event_type', bn: 'ইভেন্টের ধরন', value: q => q.properties.type },
+  { en: 'status', bn: 'স্ট্যাটাস', value: q => q.properties.status },
+  { en: 'tsunami', bn: 'সুনামি', value: q => q.properties.tsunami },
+  { en: 'felt', bn: 'অনুভবকারী', value: q => q.properties.felt },
+  { en: 'sources', bn: 'উৎস', value: q => (q.reports || []).map(r => r.provider).join(';') },
+  { en: 'url', bn: 'লিংক', value: q => q.properties.url },
+];
+
+const escapeCsv = (value: string | number | null): string => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+export const toGeoJson = (quakes: EarthquakeFeature[]): string => {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    metadata: {
+      generated: Date.now(),
+      title: 'Bhumikompo Alert export',
+      count: quakes.length,
+    },
+    features: quakes,
+  }, null, 2);
+};
+
+export const toCsv = (quakes: EarthquakeFeature[], language: CsvHeaderLanguage = 'en'): string => {
+  const header = CSV_COLUMNS.map(c => escapeCsv(c[language])).join(',');
+  const rows = quakes.map(q => CSV_COLUMNS.map(c => escapeCsv(c.value(q))).join(','));
+  // BOM so spreadsheet apps detect UTF-8 and render Bangla correctly
+  return '\uFEFF' + [header, ...rows].join('\r\n');
+};
+
+// Same magnitude bands as the map markers; KML colours are aabbggrr
+const KML_STYLES: { id: string; minMag: number; color: string; scale: number }[] = [
+  { id: 'mag7', minMag: 7, color: 'ffed3a7c', scale: 1.6 },
+  { id: 'mag6', minMag: 6, color: 'ff2626dc', scale: 1.4 },
+  { id: 'mag5', minMag: 5, color: 'ff5e3ff4', scale: 1.2 },
+  { id: 'mag3', minMag: 3, color: 'ff0b9ef5', scale: 1.0 },
+  { id: 'mag0', minMag: -Infinity, color: 'ff81b910', scale: 0.8 },
+];
+
+const getKmlStyleId = (mag: number): string => {
+  return (KML_STYLES.find(s => mag >= s.minMag) || KML_STYLES[KML_STYLES.length - 1]).id;
+};
+
+export const toKml = (quakes: EarthquakeFeature[]): string => {
+  const styles = KML_STYLES.map(s => `
+    <Style id="${s.id}">
+      <IconStyle>
+        <color>${s.color}</color>
+        <scale>${s.scale}</scale>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+    </Style>`).join('');
+
+  const placemarks = quakes.map(q => {
+    const [lng, lat, depth] = q.geometry.coordinates;
+    return `
+    <Placemark id="${escapeXml(q.id)}">
+      <name>M ${q.properties.mag.toFixed(1)} - ${escapeXml(q.properties.place)}</name>
+      <description>${escapeXml(`Depth: ${depth} km, ${q.properties.url}`)}</description>
+      <TimeStamp><when>${new Date(q.properties.time).toISOString()}</when></TimeStamp>
+      <styleUrl>#${getKmlStyleId(q.properties.mag)}</styleUrl>
+      <Point><coordinates>${lng},${lat},0</coordinates></Point>
+    </Placemark>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Bhumikompo Alert export</name>${styles}${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+export const toGpx = (quakes: EarthquakeFeature[]): string => {
+  const waypoints = quakes.map(q => {
+    const [lng, lat, depth] = q.geometry.coordinates;
+    return `
+  <wpt lat="${lat}" lon="${lng}">
+    <ele>${-depth * 1000}</ele>
+    <time>${new Date(q.properties.time).toISOString()}</time>
+    <name>M ${q.properties.mag.toFixed(1)} - ${escapeXml(q.properties.place)}</name>
+    <desc>${escapeXml(`Depth: ${depth} km`)}</desc>
+    <link href="${escapeXml(q.properties.url)}" />
+    <type>${escapeXml(q.properties.type)}</type>
+  </wpt>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Bhumikompo Alert" xmlns="http://www.topografix.com/GPX/1/1">${waypoints}
+</gpx>
+`;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  csv: 'text/csv;charset=utf-8',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+/**
+ * Serializes the given quakes and triggers a browser download.
+ * Drill events are left out; they must never end up in real data.
+ */
+export const exportEarthquakes = (
+  allQuakes: EarthquakeFeature[],
+  format: ExportFormat,
+  csvLanguage: CsvHeaderLanguage = 'en'
+): void => {
+  const quakes = allQuakes.filter(q => !q.isDrill);
+  let content: string;
+  switch (format) {
+    case 'csv': content = toCsv(quakes, csvLanguage); break;
+    case 'kml': content = toKml(quakes); break;
+    case 'gpx': content = toGpx(quakes); break;
+    case 'geojson':
+    default: content = toGeoJson(quakes);
+  }
+
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `earthquakes-${stamp}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,131 @@
+import { EarthquakeFeature, SourceReport } from '../types';
+import { SchemaError } from '../services/feedErrors';
+
+export interface ValidationResult {
+  features: EarthquakeFeature[];
+  rejected: number; // Dropped because a required field was missing or invalid
+  repaired: number; // Kept, but with one or more optional fields defaulted
+}
+
+type FeatureCheck = { feature: EarthquakeFeature; repaired: boolean } | { reason: string };
+
+export const isObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// Feeds occasionally send numbers as strings; anything else non-numeric is missing
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+/**
+ * Checks one raw feature. Position, magnitude and time are required; every
+ * other property is defaulted so the UI never sees `undefined` or NaN.
+ */
+export const validateFeature = (raw: unknown): FeatureCheck => {
+  if (!isObject(raw)) return { reason: 'not an object' };
+
+  const id = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+  if (typeof id !== 'string' || id === '') return { reason: 'missing id' };
+
+  const coords = isObject(raw.geometry) ? raw.geometry.coordinates : undefined;
+  if (!Array.isArray(coords) || coords.length < 2) return { reason: 'missing coordinates' };
+  const lng = toNumber(coords[0]);
+  const lat = toNumber(coords[1]);
+  if (lng === null || lng < -180 || lng > 180) return { reason: 'invalid longitude' };
+  if (lat === null || lat < -90 || lat > 90) return { reason: 'invalid latitude' };
+
+  const p = raw.properties;
+  if (!isObject(p)) return { reason: 'missing properties' };
+  const mag = toNumber(p.mag);
+  if (mag === null) return { reason: 'invalid magnitude' };
+  const time = toNumber(p.time);
+  if (time === null) return { reason: 'invalid time' };
+
+  let repaired = false;
+  const num = (value: unknown, fallback: number) => {
+    const n = toNumber(value);
+    if (n === null) repaired = true;
+    return n ?? fallback;
+  };
+  const nullableNum = (value: unknown) => toNumber(value);
+  const str = (value: unknown, fallback: string) => {
+    if (typeof value === 'string') return value;
+    repaired = true;
+    return fallback;
+  };
+
+  const depth = num(coords[2], 0);
+  const place = str(p.place, '');
+
+  const feature: EarthquakeFeature = {
+    type: 'Feature',
+    id,
+    properties: {
+      mag,
+      place,
+      time,
+      updated: num(p.updated, time),
+      url: str(p.url, ''),
+      detail: typeof p.detail === 'string' ? p.detail : '',
+      status: str(p.status, 'automatic'),
+      tsunami: num(p.tsunami, 0),
+      sig: num(p.sig, 0),
+      net: str(p.net, ''),
+      code: str(p.code, id),
+      ids: str(p.ids, `,${id},`),
+      sources: str(p.sources, ''),
+      types: str(p.types, ''),
+      nst: nullableNum(p.nst),
+      dmin: nullableNum(p.dmin),
+      rms: nullableNum(p.rms),
+      gap: nullableNum(p.gap),
+      magType: str(p.magType, ''),
+      type: str(p.type, 'earthquake'),
+      title: str(p.title, `M ${mag.toFixed(1)} - ${place}`),
+      felt: nullableNum(p.felt),
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [lng, lat, depth],
+    },
+  };
+
+  // Fields we add ourselves pass through untouched
+  if (Array.isArray(raw.reports)) feature.reports = raw.reports as SourceReport[];
+  if (typeof raw.datasetId === 'string') feature.datasetId = raw.datasetId;
+
+  return { feature, repaired };
+};
+
+export const validateFeatures = (raw: unknown[]): ValidationResult => {
+  const result: ValidationResult = { features: [], rejected: 0, repaired: 0 };
+
+  raw.forEach(item => {
+    const check = validateFeature(item);
+    if ('reason' in check) {
+      result.rejected++;
+      return;
+    }
+    if (check.repaired) result.repaired++;
+    result.features.push(check.feature);
+  });
+
+  return result;
+};
+
+/**
+ * Validates a GeoJSON FeatureCollection body. Throws `SchemaError` when the
+ * body is not a collection at all; bad individual features are only counted.
+ */
+export const validateFeatureCollection = (data: unknown): ValidationResult => {
+  if (!isObject(data) || !Array.isArray(data.features)) {
+    throw new SchemaError('Response is not a GeoJSON FeatureCollection');
+  }
+  return validateFeatures(data.features);
+};
@@ -0,0 +1,41 @@
+import { AlertZone, LocationState, TrackedLocation } from '../types';
+import { calculateDistance } from './geoUtils';
+
+export const FOLLOW_ZONE_RADIUS_KM = 100;
+
+// Fixes closer than this are GPS noise and don't move the zone
+const MIN_MOVE_KM = 0.05;
+// Beyond this the user really moved (car, train, flight), so snap instead of easing
+const JUMP_KM = 5;
+// Weight of the new fix when easing between MIN_MOVE_KM and JUMP_KM
+const SMOOTHING = 0.3;
+
+export const smoothLocation = (
+  prev: TrackedLocation | null,
+  next: LocationState,
+  now: number
+): TrackedLocation => {
+  if (!prev) return { ...next, updatedAt: now };
+
+  const moved = calculateDistance(prev.lat, prev.lng, next.lat, next.lng);
+  if (moved < MIN_MOVE_KM) {
+    // Keep the same object when nothing changes so zones don't re-evaluate
+    return prev.stale ? { lat: prev.lat, lng: prev.lng, updatedAt: now } : prev;
+  }
+  if (moved > JUMP_KM || prev.stale) return { ...next, updatedAt: now };
+
+  return {
+    lat: prev.lat + (next.lat - prev.lat) * SMOOTHING,
+    lng: prev.lng + (next.lng - prev.lng) * SMOOTHING,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Moves follow-me zones to the tracked location. Without any fix yet they
+ * stay where they were created.
+ */
+export const resolveFollowZones = (zones: AlertZone[], location: TrackedLocation | null): AlertZone[] => {
+  if (!location || !zones.some(z => z.followUser)) return zones;
+  return zones.map(zone => zone.followUser ? { ...zone, lat: location.lat, lng: location.lng, polygons: undefined } : zone);
+};
@@ -0,0 +1,95 @@
+import { EarthquakeFeature } from '../types';
+import { calculateDistance } from './geoUtils';
+
+/**
+ * Intensity prediction equation of Allen, Wald & Worden (2012) for
+ * hypocentral distance. Good to about ±1 intensity unit, which is as much
+ * as any estimate made without local site data can promise.
+ */
+const IPE = {
+  c0: 2.085,
+  c1: 1.428,
+  c2: -1.402,
+  c4: 0.078,
+  m1: -0.209,
+  m2: 2.042,
+  rCrossover: 50, // km; beyond this the far-field term kicks in
+};
+
+// Average crustal velocities (km/s); good enough for a countdown, not for locating events
+const P_WAVE_KMS = 6.0;
+const S_WAVE_KMS = 3.5;
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+const MMI_LABELS = [
+  'অনুভূত হয় না',
+  'খুব দুর্বল',
+  'দুর্বল',
+  'হালকা',
+  'মাঝারি',
+  'শক্তিশালী',
+  'অতি শক্তিশালী',
+  'তীব্র',
+  'প্রচণ্ড',
+  'ধ্বংসাত্মক',
+  'ভয়াবহ',
+  'চরম',
+];
+
+/**
+ * Straight-line distance from the hypocenter to a point on the surface, in km.
+ */
+export const getHypocentralDistance = (quake: EarthquakeFeature, lat: number, lng: number): number => {
+  const [quakeLng, quakeLat, depth] = quake.geometry.coordinates;
+  const epicentral = calculateDistance(quakeLat, quakeLng, lat, lng);
+  return Math.sqrt(epicentral ** 2 + Math.max(0, depth) ** 2);
+};
+
+export const estimateMmi = (mag: number, hypocentralKm: number): number => {
+  const rm = IPE.m1 + IPE.m2 * Math.exp(mag - 5);
+  let mmi = IPE.c0 + IPE.c1 * mag + IPE.c2 * Math.log(Math.sqrt(hypocentralKm ** 2 + rm ** 2));
+  if (hypocentralKm > IPE.rCrossover) {
+    mmi += IPE.c4 * Math.log(hypocentralKm / IPE.rCrossover);
+  }
+  return Math.min(12, Math.max(1, mmi));
+};
+
+export const estimateMmiAt = (quake: EarthquakeFeature, lat: number, lng: number): number => {
+  return estimateMmi(quake.properties.mag, getHypocentralDistance(quake, lat, lng));
+};
+
+export interface WaveArrivals {
+  pArrival: number; // epoch ms
+  sArrival: number;
+}
+
+// When the first (P) and the strong (S) shaking reach a point at the given hypocentral distance
+export const getWaveArrivals = (originTime: number, hypocentralKm: number): WaveArrivals => ({
+  pArrival: originTime + (hypocentralKm / P_WAVE_KMS) * 1000,
+  sArrival: originTime + (hypocentralKm / S_WAVE_KMS) * 1000,
+});
+
+export const getWaveArrivalsAt = (quake: EarthquakeFeature, lat: number, lng: number): WaveArrivals => {
+  return getWaveArrivals(quake.properties.time, getHypocentralDistance(quake, lat, lng));
+};
+
+const toLevel = (mmi: number) => Math.min(ROMAN.length, Math.max(1, Math.round(mmi)));
+
+export const formatMmi = (mmi: number | null): string => {
+  if (mmi === null) return '-';
+  return ROMAN[toLevel(mmi) - 1];
+};
+
+export const getMmiLabel = (mmi: number): string => MMI_LABELS[toLevel(mmi) - 1];
+
+// USGS intensity colour scale, light to dark
+export const getMmiColor = (mmi: number): string => {
+  const level = toLevel(mmi);
+  if (level <= 3) return 'bg-sky-100 text-sky-800';
+  if (level === 4) return 'bg-emerald-100 text-emerald-800';
+  if (level === 5) return 'bg-yellow-300 text-yellow-900';
+  if (level === 6) return 'bg-orange-400 text-white';
+  if (level === 7) return 'bg-orange-600 text-white';
+  return 'bg-red-700 text-white';
+};
@@ -0,0 +1,121 @@
+import { EarthquakeFeature, FeedProviderId } from '../types';
+import { calculateDistance } from './geoUtils';
+
+// Two agencies' solutions for the same event rarely differ by more than this
+const MERGE_TIME_WINDOW_MS = 60 * 1000;
+const MERGE_DISTANCE_KM = 100;
+const MERGE_MAG_DIFF = 0.8;
+
+const BUCKET_MS = MERGE_TIME_WINDOW_MS;
+
+const getProvider = (quake: EarthquakeFeature): FeedProviderId | undefined => quake.reports?.[0]?.provider;
+
+/**
+ * Scores how likely two events are to be the same quake. Returns null when
+ * they fall outside any of the time, distance or magnitude windows; lower
+ * scores mean a closer match.
+ */
+const matchScore = (a: EarthquakeFeature, b: EarthquakeFeature): number | null => {
+  const dt = Math.abs(a.properties.time - b.properties.time);
+  if (dt > MERGE_TIME_WINDOW_MS) return null;
+
+  const dMag = Math.abs(a.properties.mag - b.properties.mag);
+  if (dMag > MERGE_MAG_DIFF) return null;
+
+  const dist = calculateDistance(
+    a.geometry.coordinates[1],
+    a.geometry.coordinates[0],
+    b.geometry.coordinates[1],
+    b.geometry.coordinates[0]
+  );
+  if (dist > MERGE_DISTANCE_KM) return null;
+
+  // Normalize each dimension to its window so they weigh equally
+  return dt / MERGE_TIME_WINDOW_MS + dist / MERGE_DISTANCE_KM + dMag / MERGE_MAG_DIFF;
+};
+
+/**
+ * Collapses events reported by several agencies into one feature each.
+ * The solution from the highest-priority provider is kept as the primary
+ * event and every contributing agency is listed in its `reports`.
+ */
+export const mergeDuplicateEvents = (
+  features: EarthquakeFeature[],
+  priority: FeedProviderId[]
+): EarthquakeFeature[] => {
+  const rank = (q: EarthquakeFeature) => {
+    const idx = priority.indexOf(getProvider(q) as FeedProviderId);
+    return idx === -1 ? priority.length : idx;
+  };
+
+  const ordered = [...features].sort((a, b) => rank(a) - rank(b));
+  const merged: EarthquakeFeature[] = [];
+  // Time buckets keep the candidate search short even for month-long feeds
+  const buckets = new Map<number, EarthquakeFeature[]>();
+
+  ordered.forEach(quake => {
+    const bucket = Math.floor(quake.properties.time / BUCKET_MS);
+    const provider = getProvider(quake);
+
+    let best: EarthquakeFeature | null = null;
+    let bestScore = Infinity;
+
+    for (let b = bucket - 1; b <= bucket + 1; b++) {
+      for (const candidate of buckets.get(b) || []) {
+        // An agency never reports the same event twice
+        if (candidate.reports?.some(r => r.provider === provider)) continue;
+        const score = matchScore(candidate, quake);
+        if (score !== null && score < bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+    }
+
+    if (best) {
+      best.reports = [...(best.reports || []), ...(quake.reports || [])];
+      return;
+    }
+
+    const copy: EarthquakeFeature = { ...quake, reports: [...(quake.reports || [])] };
+    merged.push(copy);
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(copy);
+  });
+
+  return merged;
+};
+
+// Keeps the other agencies' reports when the primary solution is replaced
+const mergeReports = (prev: EarthquakeFeature, next: EarthquakeFeature) => {
+  const own = next.reports || [];
+  const others = (prev.reports || []).filter(r => !own.some(o => o.provider === r.provider));
+  return [...own, ...others];
+};
+
+/**
+ * Folds a single pushed event into an already merged list. An event we
+ * already show is replaced, a newer solution for a secondary report only
+ * refreshes that report, and anything else goes through the normal merge.
+ */
+export const upsertEvent = (
+  features: EarthquakeFeature[],
+  quake: EarthquakeFeature,
+  priority: FeedProviderId[]
+): EarthquakeFeature[] => {
+  if (features.some(q => q.id === quake.id)) {
+    return features.map(q => q.id === quake.id ? { ...quake, reports: mergeReports(q, quake) } : q);
+  }
+
+  const report = quake.reports?.[0];
+  const owner = report && features.find(q => q.reports?.some(r => r.provider === report.provider && r.eventId === report.eventId));
+  if (owner && report) {
+    return features.map(q => q === owner
+      ? { ...q, reports: q.reports!.map(r => r.provider === report.provider && r.eventId === report.eventId ? report : r) }
+      : q);
+  }
+
+  return mergeDuplicateEvents([quake, ...features], priority)
+    .sort((a, b) => b.properties.time - a.properties.time);
+};
+
@@ -0,0 +1,67 @@
+import { AlertNotification, EarthquakeFeature, LocationState, QuietHoursSchedule } from '../types';
+import { estimateMmiAt } from './groundMotion';
+
+export const DEFAULT_QUIET_HOURS: QuietHoursSchedule = {
+  enabled: false,
+  days: Array.from({ length: 7 }, () => ({ enabled: true, start: '23:00', end: '07:00' })),
+  overrideMag: 6.0,
+  overrideMmi: 6,
+};
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/**
+ * True when `date` falls inside a quiet window. A window that runs past
+ * midnight belongs to the day it starts on, so Friday 23:00-07:00 also
+ * covers early Saturday.
+ */
+export const isQuietTime = (schedule: QuietHoursSchedule, date: Date): boolean => {
+  if (!schedule.enabled) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const today = date.getDay();
+  const yesterday = (today + 6) % 7;
+
+  const todayWindow = schedule.days[today];
+  if (todayWindow?.enabled) {
+    const start = toMinutes(todayWindow.start);
+    const end = toMinutes(todayWindow.end);
+    if (start <= end ? minutes >= start && minutes < end : minutes >= start) return true;
+  }
+
+  const yesterdayWindow = schedule.days[yesterday];
+  if (yesterdayWindow?.enabled) {
+    const start = toMinutes(yesterdayWindow.start);
+    const end = toMinutes(yesterdayWindow.end);
+    if (start > end && minutes < end) return true;
+  }
+
+  return false;
+};
+
+// Strong enough to wake people up even during quiet hours
+const isCriticalShaking = (schedule: QuietHoursSchedule, mag: number, mmi: number): boolean => {
+  return mag >= schedule.overrideMag || mmi >= schedule.overrideMmi;
+};
+
+export const isCriticalAlert = (schedule: QuietHoursSchedule, alert: AlertNotification): boolean => {
+  return isCriticalShaking(schedule, alert.mag, Math.max(alert.mmi ?? 0, alert.userMmi ?? 0));
+};
+
+export const shouldSoundAlert = (schedule: QuietHoursSchedule, alert: AlertNotification, date: Date): boolean => {
+  return !isQuietTime(schedule, date) || isCriticalAlert(schedule, alert);
+};
+
+// The same test for an event outside any zone, judged by the shaking expected where the user is
+export const shouldSoundQuake = (
+  schedule: QuietHoursSchedule,
+  quake: EarthquakeFeature,
+  userLocation: LocationState | null,
+  date: Date
+): boolean => {
+  if (!isQuietTime(schedule, date)) return true;
+  const userMmi = userLocation ? estimateMmiAt(quake, userLocation.lat, userLocation.lng) : 0;
+  return isCriticalShaking(schedule, quake.properties.mag, userMmi);
+};
@@ -0,0 +1,136 @@
+import { AlertNotification, AlertZone, CoverageSpan, EarthquakeFeature, SwarmStats } from '../types';
+import { isInZone } from './alertEngine';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const RATE_WINDOW_MS = DAY_MS;
+export const BASELINE_MS = 90 * DAY_MS;
+// Feeds mix networks; below this not every agency reports consistently
+export const COMPLETENESS_MAG = 2.5;
+
+// With less history than this the baseline is mostly noise
+const MIN_BASELINE_MS = 7 * DAY_MS;
+const MIN_SWARM_COUNT = 5;
+// Chance of seeing this many events by luck at the baseline rate
+const SWARM_P_VALUE = 0.001;
+
+export interface ZoneRate extends SwarmStats {
+  zoneId: string;
+  pValue: number;
+  latest: EarthquakeFeature | null; // Newest event in the window
+  maxMag: number;
+}
+
+export interface RateEvaluationInput {
+  zones: AlertZone[];
+  events: EarthquakeFeature[]; // Baseline and window together, any order
+  now: number;
+  coverage: CoverageSpan[]; // When the archive was actually being filled
+  existingAlertIds?: Set<string>;
+}
+
+/**
+ * Adds a span to a sorted list of non-overlapping spans, merging where they
+ * touch, and drops whatever ends before `keepAfter`.
+ */
+export const addCoverage = (spans: CoverageSpan[], span: CoverageSpan, keepAfter: number = -Infinity): CoverageSpan[] => {
+  const merged: CoverageSpan[] = [];
+  [...spans, span]
+    .filter(([, end]) => end > keepAfter)
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+    });
+  return merged;
+};
+
+// How much of [from, to] the spans cover
+export const getCoveredMs = (spans: CoverageSpan[], from: number, to: number): number =>
+  spans.reduce((sum, [start, end]) => sum + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0);
+
+const isCovered = (spans: CoverageSpan[], time: number): boolean =>
+  spans.some(([start, end]) => time >= start && time <= end);
+
+/**
+ * P(X >= k) for a Poisson variable with mean `lambda`.
+ */
+export const poissonTail = (k: number, lambda: number): number => {
+  if (k <= 0) return 1;
+  let term = Math.exp(-lambda);
+  let cumulative = term;
+  for (let i = 1; i < k; i++) {
+    term *= lambda / i;
+    cumulative += term;
+  }
+  return Math.max(0, 1 - cumulative);
+};
+
+/**
+ * Compares each zone's event count in the last window with what its
+ * baseline rate predicts. The baseline only counts time the archive really
+ * covers, so days the app was closed don't dilute the rate, and events from
+ * outside those spans (e.g. historical queries) are left out. Zones without
+ * enough history are skipped.
+ */
+export const computeZoneRates = ({ zones, events, now, coverage }: RateEvaluationInput): ZoneRate[] => {
+  const windowStart = now - RATE_WINDOW_MS;
+  const baselineMs = getCoveredMs(coverage, now - BASELINE_MS, windowStart);
+  if (baselineMs < MIN_BASELINE_MS) return [];
+
+  const complete = events.filter(q => q.properties.mag >= COMPLETENESS_MAG
+    && q.properties.time >= now - BASELINE_MS
+    && (q.properties.time >= windowStart || isCovered(coverage, q.properties.time)));
+
+  return zones.map(zone => {
+    const inZone = complete.filter(q => isInZone(zone, q.geometry.coordinates[1], q.geometry.coordinates[0]));
+    const inWindow = inZone
+      .filter(q => q.properties.time >= windowStart && q.properties.time <= now)
+      .sort((a, b) => b.properties.time - a.properties.time);
+    const baselineCount = inZone.length - inWindow.length;
+    // Add-one smoothing so a quiet zone doesn't get an expected rate of zero
+    const expected = (baselineCount + 1) * RATE_WINDOW_MS / baselineMs;
+
+    return {
+      zoneId: zone.id,
+      count: inWindow.length,
+      expected,
+      windowHours: RATE_WINDOW_MS / HOUR_MS,
+      pValue: poissonTail(inWindow.length, expected),
+      latest: inWindow[0] || null,
+      maxMag: inWindow.reduce((max, q) => Math.max(max, q.properties.mag), 0),
+    };
+  });
+};
+
+export const isSwarm = (rate: ZoneRate): boolean => rate.count >= MIN_SWARM_COUNT && rate.pValue < SWARM_P_VALUE;
+
+/**
+ * One swarm alert per zone per window, so an ongoing swarm reminds once a
+ * day rather than on every poll.
+ */
+export const evaluateSwarmAlerts = (input: RateEvaluationInput): AlertNotification[] => {
+  const { zones, now, existingAlertIds = new Set() } = input;
+  const windowIndex = Math.floor(now / RATE_WINDOW_MS);
+
+  return computeZoneRates(input)
+    .filter(rate => isSwarm(rate) && rate.latest)
+    .map(rate => {
+      const zone = zones.find(z => z.id === rate.zoneId)!;
+      const latest = rate.latest!;
+      return {
+        id: `swarm-${zone.id}-${windowIndex}`,
+        kind: 'swarm' as const,
+        quakeId: latest.id,
+        zoneId: zone.id,
+        zoneName: zone.name,
+        quakePlace: latest.properties.place,
+        mag: rate.maxMag,
+        timestamp: latest.properties.time,
+        swarm: { count: rate.count, expected: rate.expected, windowHours: rate.windowHours },
+      };
+    })
+    .filter(alert => !existingAlertIds.has(alert.id));
+};
@@ -0,0 +1,96 @@
+import { EarthquakeFeature, EventRevision, RevisionChange, RevisionHistory } from '../types';
+import { calculateDistance } from './geoUtils';
+
+// Changes smaller than these are rounding noise, not real revisions
+const MIN_MAG_CHANGE = 0.05;
+const MIN_LOCATION_CHANGE_KM = 1;
+const MIN_DEPTH_CHANGE_KM = 1;
+
+// Histories older than the longest feed window are no longer useful
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Lists the meaningful differences between two versions of the same event.
+ */
+export const diffEvent = (prev: EarthquakeFeature, next: EarthquakeFeature): RevisionChange[] => {
+  const changes: RevisionChange[] = [];
+  const [prevLng, prevLat, prevDepth] = prev.geometry.coordinates;
+  const [nextLng, nextLat, nextDepth] = next.geometry.coordinates;
+
+  if (Math.abs(next.properties.mag - prev.properties.mag) >= MIN_MAG_CHANGE) {
+    changes.push({ field: 'mag', from: prev.properties.mag, to: next.properties.mag });
+  }
+
+  const moved = calculateDistance(prevLat, prevLng, nextLat, nextLng);
+  if (moved >= MIN_LOCATION_CHANGE_KM) {
+    changes.push({ field: 'location', from: `${round(prevLat, 3)}, ${round(prevLng, 3)}`, to: `${round(nextLat, 3)}, ${round(nextLng, 3)}` });
+  }
+
+  if (Math.abs(nextDepth - prevDepth) >= MIN_DEPTH_CHANGE_KM) {
+    changes.push({ field: 'depth', from: round(prevDepth, 1), to: round(nextDepth, 1) });
+  }
+
+  if (next.properties.status !== prev.properties.status) {
+    changes.push({ field: 'status', from: prev.properties.status, to: next.properties.status });
+  }
+
+  return changes;
+};
+
+/**
+ * Compares a fresh feed against the previous snapshot. Only events whose
+ * `properties.updated` moved forward are inspected, so unchanged events
+ * cost a single comparison.
+ */
+export const detectRevisions = (
+  previous: Map<string, EarthquakeFeature>,
+  next: EarthquakeFeature[],
+  now: number = Date.now()
+): Record<string, EventRevision> => {
+  const revisions: Record<string, EventRevision> = {};
+
+  next.forEach(quake => {
+    const prev = previous.get(quake.id);
+    if (!prev || quake.properties.updated <= prev.properties.updated) return;
+
+    const changes = diffEvent(prev, quake);
+    if (changes.length > 0) {
+      revisions[quake.id] = { detectedAt: now, updated: quake.properties.updated, changes };
+    }
+  });
+
+  return revisions;
+};
+
+export const appendRevisions = (
+  history: RevisionHistory,
+  revisions: Record<string, EventRevision>,
+  now: number = Date.now()
+): RevisionHistory => {
+  const result: RevisionHistory = {};
+
+  Object.entries(history).forEach(([id, list]) => {
+    const latest = list[list.length - 1];
+    if (latest && now - latest.detectedAt < HISTORY_RETENTION_MS) {
+      result[id] = list;
+    }
+  });
+
+  Object.entries(revisions).forEach(([id, revision]) => {
+    result[id] = [...(result[id] || []), revision];
+  });
+
+  return result;
+};
+
+/**
+ * True when a magnitude revision lifted the event from below the alert
+ * threshold to at or above it.
+ */
+export const crossesThreshold = (revision: EventRevision, threshold: number): boolean => {
+  const magChange = revision.changes.find(c => c.field === 'mag');
+  if (!magChange) return false;
+  return Number(magChange.from) < threshold && Number(magChange.to) >= threshold;
+};
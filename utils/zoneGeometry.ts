@@ -0,0 +1,140 @@
+import { AlertZone, ZonePolygon } from '../types';
+import { calculateDistance } from './geoUtils';
+import { isObject } from './featureValidation';
+
+// Ray casting; treats the ring as closed whether or not the last vertex repeats the first
+const pointInRing = (lng: number, lat: number, ring: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const pointInPolygon = (lat: number, lng: number, polygon: ZonePolygon): boolean => {
+  const [outer, ...holes] = polygon;
+  if (!outer || outer.length < 3 || !pointInRing(lng, lat, outer)) return false;
+  return !holes.some(hole => pointInRing(lng, lat, hole));
+};
+
+export const pointInPolygons = (lat: number, lng: number, polygons: ZonePolygon[]): boolean => {
+  return polygons.some(polygon => pointInPolygon(lat, lng, polygon));
+};
+
+/**
+ * Average of the outer ring vertices. Not the true area centroid, but close
+ * enough to label the zone and fly the map to it.
+ */
+export const getPolygonsCenter = (polygons: ZonePolygon[]): { lat: number; lng: number } => {
+  const vertices = polygons.flatMap(polygon => polygon[0] || []);
+  if (vertices.length === 0) return { lat: 0, lng: 0 };
+  const lng = vertices.reduce((sum, v) => sum + v[0], 0) / vertices.length;
+  const lat = vertices.reduce((sum, v) => sum + v[1], 0) / vertices.length;
+  return { lat, lng };
+};
+
+export const getBoundingRadiusKm = (center: { lat: number; lng: number }, polygons: ZonePolygon[]): number => {
+  const distances = polygons.flatMap(polygon => polygon[0] || [])
+    .map(([lng, lat]) => calculateDistance(center.lat, center.lng, lat, lng));
+  return distances.length > 0 ? Math.ceil(Math.max(...distances)) : 0;
+};
+
+const KM_PER_DEGREE = 111.195;
+
+/**
+ * Shortest surface distance from a point to the edges of the polygons
+ * (outer rings and holes). Edges are measured in a flat projection around the
+ * point, which is accurate to well under a percent at zone scales.
+ */
+export const getDistanceToPolygonsKm = (lat: number, lng: number, polygons: ZonePolygon[]): number => {
+  const kmPerLngDegree = KM_PER_DEGREE * Math.cos(lat * Math.PI / 180);
+  const project = ([vLng, vLat]: [number, number]): [number, number] => {
+    const dLng = ((vLng - lng + 540) % 360) - 180;
+    return [dLng * kmPerLngDegree, (vLat - lat) * KM_PER_DEGREE];
+  };
+
+  let best = Infinity;
+  polygons.forEach(polygon => polygon.forEach(ring => {
+    const points = ring.map(project);
+    points.forEach((a, i) => {
+      const b = points[(i + 1) % points.length];
+      const dx = b[0] - a[0];
+      const dy = b[1] - a[1];
+      const lengthSq = dx * dx + dy * dy;
+      // Position of the closest point along the edge, clamped to its ends
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a[0] * dx + a[1] * dy) / lengthSq));
+      best = Math.min(best, Math.hypot(a[0] + t * dx, a[1] + t * dy));
+    });
+  }));
+  return best;
+};
+
+// GeoJSON closes rings by repeating the first vertex; drawn rings don't, so we store them open
+const openRing = (ring: [number, number][]): [number, number][] => {
+  if (ring.length > 1) {
+    const [firstLng, firstLat] = ring[0];
+    const [lastLng, lastLat] = ring[ring.length - 1];
+    if (firstLng === lastLng && firstLat === lastLat) return ring.slice(0, -1);
+  }
+  return ring;
+};
+
+const isValidRing = (ring: unknown): ring is [number, number][] => (
+  Array.isArray(ring) && ring.length >= 3 && ring.every(v =>
+    Array.isArray(v) && Number.isFinite(v[0]) && Number.isFinite(v[1]) && Math.abs(v[1]) <= 90 && Math.abs(v[0]) <= 180
+  )
+);
+
+const toPolygons = (geometry: unknown): ZonePolygon[] => {
+  let raw: unknown[] = [];
+  if (isObject(geometry) && geometry.type === 'Polygon') raw = [geometry.coordinates];
+  else if (isObject(geometry) && geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) raw = geometry.coordinates;
+
+  return raw
+    .filter((polygon): polygon is unknown[] => Array.isArray(polygon) && isValidRing(polygon[0]))
+    .map(polygon => polygon.filter(isValidRing).map(ring => openRing(ring.map(([lng, lat]) => [Number(lng), Number(lat)] as [number, number]))));
+};
+
+export const createPolygonZone = (id: string, name: string, polygons: ZonePolygon[]): AlertZone => {
+  const center = getPolygonsCenter(polygons);
+  return {
+    id,
+    name,
+    lat: center.lat,
+    lng: center.lng,
+    radiusKm: getBoundingRadiusKm(center, polygons),
+    polygons,
+    isVisible: true,
+  };
+};
+
+/**
+ * Turns a GeoJSON Feature, FeatureCollection or bare (Multi)Polygon geometry
+ * into polygon zones, one per feature. Non-polygon features are skipped.
+ */
+export const parseZoneGeoJson = (text: string, idPrefix: string): { zones: AlertZone[]; skipped: number } => {
+  const data: unknown = JSON.parse(text);
+  let features: unknown[] = [{ type: 'Feature', geometry: data, properties: {} }];
+  if (isObject(data) && data.type === 'FeatureCollection') features = Array.isArray(data.features) ? data.features : [];
+  else if (isObject(data) && data.type === 'Feature') features = [data];
+
+  const zones: AlertZone[] = [];
+  let skipped = 0;
+
+  features.forEach((feature, i) => {
+    const polygons = toPolygons(isObject(feature) ? feature.geometry : undefined);
+    if (!isObject(feature) || polygons.length === 0) {
+      skipped++;
+      return;
+    }
+    const props = isObject(feature.properties) ? feature.properties : {};
+    const name = props.name || props.NAME || props.title || `জোন ${i + 1}`;
+    zones.push(createPolygonZone(`${idPrefix}_${i}`, String(name), polygons));
+  });
+
+  return { zones, skipped };
+};
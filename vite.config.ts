@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.BMD_FEED_URL': JSON.stringify(env.BMD_FEED_URL),
+        'process.env.QUAKE_STREAM_URL': JSON.stringify(env.QUAKE_STREAM_URL),
+        'process.env.FDSN_EVENT_URL': JSON.stringify(env.FDSN_EVENT_URL),
+        'process.env.PUSH_SERVER_URL': JSON.stringify(env.PUSH_SERVER_URL),
+        'process.env.VAPID_PUBLIC_KEY': JSON.stringify(env.VAPID_PUBLIC_KEY)
       },
       resolve: {
         alias: {